@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { format, parseISO, subYears } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { CalendarDays } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { formatWeight, type UnitSystem } from "@/lib/units";
+import { getBrowserTimeZone, parseDateKey, todayKey } from "@/lib/dates";
+import {
+  HEATMAP_LEVELS,
+  buildHeatmapWeeks,
+  getHeatmapLevel,
+  getHeatmapValue,
+  type HeatmapDay,
+  type HeatmapMetric,
+} from "@/lib/activityHeatmap";
+
+interface ActivityHeatmapProps {
+  user: User | null;
+  unitSystem?: UnitSystem;
+  timeZone?: string;
+  refreshTrigger?: number;
+  selectedDate?: string | null;
+  onSelectDay?: (date: string) => void;
+}
+
+const LEVEL_CLASSES = ["bg-muted", "bg-green-500/25", "bg-green-500/50", "bg-green-500/75", "bg-green-500"];
+
+const WEEKDAY_LABELS = ["Mon", "", "Wed", "", "Fri", "", ""];
+
+const describeDay = (day: HeatmapDay, unitSystem: UnitSystem) => {
+  if (day.workouts === 0) return "No workouts";
+  return [
+    `${day.workouts} workout${day.workouts === 1 ? "" : "s"}`,
+    day.duration > 0 && `${day.duration} mins`,
+    day.volume > 0 && `${formatWeight(day.volume, unitSystem)} volume`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
+export const ActivityHeatmap = ({
+  user,
+  unitSystem = "metric",
+  timeZone = getBrowserTimeZone(),
+  refreshTrigger,
+  selectedDate,
+  onSelectDay,
+}: ActivityHeatmapProps) => {
+  const [metric, setMetric] = useState<HeatmapMetric>("duration");
+  const [activeDays, setActiveDays] = useState<HeatmapDay[]>([]);
+  const today = todayKey(timeZone);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    supabase
+      .rpc("get_daily_workout_stats", { p_since: format(subYears(parseDateKey(today), 1), "yyyy-MM-dd") })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading heatmap:", error);
+        setActiveDays(
+          (data ?? []).map(row => ({
+            date: row.day,
+            workouts: row.workouts,
+            duration: row.duration,
+            volume: row.volume_kg,
+          }))
+        );
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, today, refreshTrigger]);
+
+  const weeks = buildHeatmapWeeks(activeDays, parseDateKey(today));
+  const days = weeks.flat().filter((day): day is HeatmapDay => day !== null);
+  const max = Math.max(0, ...days.map(day => getHeatmapValue(day, metric)));
+  const activeDayCount = days.filter(day => day.workouts > 0).length;
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <div>
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Past Year
+          </h3>
+          <p className="text-sm text-muted-foreground">{activeDayCount} active days in the last 12 months</p>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={metric}
+          onValueChange={(value) => value && setMetric(value as HeatmapMetric)}
+        >
+          <ToggleGroupItem value="duration">Duration</ToggleGroupItem>
+          <ToggleGroupItem value="volume">Volume</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="inline-flex flex-col gap-1">
+          <div className="flex gap-1 ml-8 h-4">
+            {weeks.map((week, index) => {
+              const firstOfMonth = week.find(day => day && day.date.endsWith("-01"));
+              return (
+                <div key={index} className="w-3 text-[10px] text-muted-foreground overflow-visible whitespace-nowrap">
+                  {firstOfMonth && format(parseISO(firstOfMonth.date), "MMM")}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-1">
+            <div className="flex flex-col gap-1 w-7">
+              {WEEKDAY_LABELS.map((label, index) => (
+                <div key={index} className="h-3 text-[10px] leading-3 text-muted-foreground">
+                  {label}
+                </div>
+              ))}
+            </div>
+            {weeks.map((week, index) => (
+              <div key={index} className="flex flex-col gap-1">
+                {week.map((day, dayIndex) =>
+                  day === null ? (
+                    <div key={dayIndex} className="w-3 h-3" />
+                  ) : (
+                    <Tooltip key={day.date}>
+                      <TooltipTrigger asChild>
+                        <button
+                          type="button"
+                          aria-label={`${day.date}: ${describeDay(day, unitSystem)}`}
+                          onClick={() => onSelectDay?.(day.date)}
+                          className={`w-3 h-3 rounded-sm ${
+                            LEVEL_CLASSES[getHeatmapLevel(getHeatmapValue(day, metric), max)]
+                          } ${selectedDate === day.date ? "ring-2 ring-primary ring-offset-1" : ""}`}
+                        />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="font-medium">{format(parseISO(day.date), "EEEE, MMM d, yyyy")}</p>
+                        <p className="text-xs text-muted-foreground">{describeDay(day, unitSystem)}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-1 mt-3 text-xs text-muted-foreground">
+        Less
+        {Array.from({ length: HEATMAP_LEVELS + 1 }, (_, level) => (
+          <div key={level} className={`w-3 h-3 rounded-sm ${LEVEL_CLASSES[level]}`} />
+        ))}
+        More
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,403 @@
+import { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Plus, Ruler, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { getBMICategory } from "@/lib/planEngine";
+import { formatLength, formatWeight, lengthUnit, weightUnit, type UnitSystem } from "@/lib/units";
+import { getBrowserTimeZone, parseDateKey, todayKey } from "@/lib/dates";
+import {
+  CIRCUMFERENCE_FIELDS,
+  CIRCUMFERENCE_LABELS,
+  buildMeasurementTrend,
+  emptyMeasurementDraft,
+  getMeasurementBMI,
+  toBodyMeasurementRow,
+  validateMeasurementDraft,
+  type BodyMeasurement,
+  type MeasurementDraft,
+} from "@/lib/bodyMeasurements";
+import { LengthInput, WeightInput } from "./MeasurementInputs";
+
+interface BodyMeasurementsProps {
+  user: User | null;
+  unitSystem?: UnitSystem;
+  // Used to recalculate BMI for every weigh-in
+  heightCm?: number | null;
+  timeZone?: string;
+  onSaved?: () => void;
+}
+
+const HISTORY_LIMIT = 10;
+
+const formatDay = (date: string) => format(parseDateKey(date), "MMM d");
+
+const weightChartConfig = {
+  weight: { label: "Weight", color: "hsl(var(--primary))" },
+  bmi: { label: "BMI", color: "hsl(var(--secondary))" },
+} satisfies ChartConfig;
+
+const bodyFatChartConfig = {
+  bodyFat: { label: "Body Fat %", color: "hsl(var(--secondary))" },
+} satisfies ChartConfig;
+
+const circumferenceChartConfig = {
+  waist: { label: CIRCUMFERENCE_LABELS.waist_cm, color: "hsl(var(--primary))" },
+  hip: { label: CIRCUMFERENCE_LABELS.hip_cm, color: "hsl(var(--secondary))" },
+  chest: { label: CIRCUMFERENCE_LABELS.chest_cm, color: "hsl(var(--accent))" },
+  arm: { label: CIRCUMFERENCE_LABELS.arm_cm, color: "hsl(262 83% 58%)" },
+  thigh: { label: CIRCUMFERENCE_LABELS.thigh_cm, color: "hsl(346 77% 50%)" },
+} satisfies ChartConfig;
+
+const CIRCUMFERENCE_KEYS = Object.keys(circumferenceChartConfig) as (keyof typeof circumferenceChartConfig)[];
+
+export const BodyMeasurements = ({
+  user,
+  unitSystem = "metric",
+  heightCm = null,
+  timeZone = getBrowserTimeZone(),
+  onSaved,
+}: BodyMeasurementsProps) => {
+  const { toast } = useToast();
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [draft, setDraft] = useState<MeasurementDraft>(() => emptyMeasurementDraft(todayKey(timeZone)));
+  const [saving, setSaving] = useState(false);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  // The saved time zone arrives after the first render
+  useEffect(() => {
+    setDraft(prev => ({ ...prev, measuredOn: todayKey(timeZone) }));
+  }, [timeZone]);
+
+  useEffect(() => {
+    if (!user) {
+      setMeasurements([]);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from("body_measurements")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("measured_on", { ascending: false })
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading body measurements:", error);
+        setMeasurements(data ?? []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, refreshCount]);
+
+  const trend = buildMeasurementTrend(measurements, heightCm, unitSystem);
+  const weighIns = trend.filter(point => point.weight !== null);
+  const bodyFatPoints = trend.filter(point => point.bodyFat !== null);
+  const circumferencePoints = trend.filter(point => CIRCUMFERENCE_KEYS.some(key => point[key] !== null));
+  const latestWeighIn = measurements.find(measurement => measurement.weight_kg !== null);
+  const latestBMI = latestWeighIn ? getMeasurementBMI(latestWeighIn, heightCm) : null;
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    const invalid = validateMeasurementDraft(draft);
+    if (invalid) {
+      toast({
+        title: "Invalid Measurement",
+        description: invalid,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("body_measurements").insert(toBodyMeasurementRow(user.id, draft));
+      if (error) throw error;
+
+      toast({
+        title: "Measurement Saved! 📏",
+        description: "Your body measurements have been recorded",
+      });
+      setDraft(emptyMeasurementDraft(todayKey(timeZone)));
+      setShowForm(false);
+      setRefreshCount(prev => prev + 1);
+      onSaved?.();
+    } catch (error) {
+      console.error("Measurement error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save measurement",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("body_measurements").delete().eq("id", id);
+    if (error) {
+      console.error("Delete measurement error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete measurement",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRefreshCount(prev => prev + 1);
+    onSaved?.();
+  };
+
+  if (!user) return null;
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Ruler className="w-5 h-5 text-primary" />
+          Body Measurements
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => setShowForm(prev => !prev)} className="gap-2">
+          <Plus className="w-4 h-4" />
+          {showForm ? "Close" : "Add Measurement"}
+        </Button>
+      </div>
+
+      {latestWeighIn && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div className="p-3 rounded-lg bg-muted/50">
+            <p className="text-xs text-muted-foreground">Latest Weight</p>
+            <p className="text-lg font-bold">{formatWeight(latestWeighIn.weight_kg, unitSystem)}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-muted/50">
+            <p className="text-xs text-muted-foreground">BMI</p>
+            <p className="text-lg font-bold">
+              {latestBMI !== null ? `${latestBMI} · ${getBMICategory(latestBMI)}` : "N/A"}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {!heightCm && (
+        <p className="text-xs text-muted-foreground mb-4">
+          Add your height on your Profile to see BMI for each weigh-in.
+        </p>
+      )}
+
+      {showForm && (
+        <div className="space-y-4 mb-6 p-4 rounded-lg border">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="measuredOn">Date</Label>
+              <Input
+                id="measuredOn"
+                type="date"
+                value={draft.measuredOn}
+                onChange={(e) => setDraft({ ...draft, measuredOn: e.target.value })}
+              />
+            </div>
+            <WeightInput
+              id="measurementWeight"
+              valueKg={draft.weightKg}
+              unitSystem={unitSystem}
+              onChange={(weightKg) => setDraft(prev => ({ ...prev, weightKg }))}
+            />
+            <div className="space-y-2">
+              <Label htmlFor="bodyFatPercent">Body Fat (%)</Label>
+              <Input
+                id="bodyFatPercent"
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={draft.bodyFatPercent}
+                onChange={(e) => setDraft({ ...draft, bodyFatPercent: e.target.value })}
+              />
+            </div>
+            {CIRCUMFERENCE_FIELDS.map((field) => (
+              <LengthInput
+                key={field}
+                id={`measurement-${field}`}
+                label={CIRCUMFERENCE_LABELS[field]}
+                valueCm={draft.circumferences[field]}
+                unitSystem={unitSystem}
+                onChange={(cm) =>
+                  setDraft(prev => ({ ...prev, circumferences: { ...prev.circumferences, [field]: cm } }))
+                }
+              />
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="measurementNotes">Notes (optional)</Label>
+            <Textarea
+              id="measurementNotes"
+              placeholder="Morning, before breakfast..."
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+          <Button onClick={handleSubmit} disabled={saving} className="w-full gradient-energy hover:opacity-90">
+            {saving ? "Saving..." : "Save Measurement"}
+          </Button>
+        </div>
+      )}
+
+      {measurements.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Record your weight and measurements regularly to see how your body changes.
+        </p>
+      ) : (
+        <>
+          <Tabs defaultValue="weight">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="weight">Weight & BMI</TabsTrigger>
+              <TabsTrigger value="bodyFat">Body Fat</TabsTrigger>
+              <TabsTrigger value="circumferences">Measurements</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="weight">
+              {weighIns.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">No weigh-ins yet.</p>
+              ) : (
+                <ChartContainer config={weightChartConfig} className="h-64 w-full">
+                  <LineChart data={weighIns} margin={{ left: 0, right: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                    <YAxis
+                      yAxisId="weight"
+                      domain={["auto", "auto"]}
+                      unit={` ${weightUnit(unitSystem)}`}
+                      tickLine={false}
+                      axisLine={false}
+                      width={60}
+                    />
+                    {heightCm && (
+                      <YAxis
+                        yAxisId="bmi"
+                        orientation="right"
+                        domain={["auto", "auto"]}
+                        tickLine={false}
+                        axisLine={false}
+                        width={40}
+                      />
+                    )}
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line yAxisId="weight" dataKey="weight" stroke="var(--color-weight)" strokeWidth={2} dot />
+                    {heightCm && (
+                      <Line yAxisId="bmi" dataKey="bmi" stroke="var(--color-bmi)" strokeWidth={2} dot />
+                    )}
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </TabsContent>
+
+            <TabsContent value="bodyFat">
+              {bodyFatPoints.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">No body fat readings yet.</p>
+              ) : (
+                <ChartContainer config={bodyFatChartConfig} className="h-64 w-full">
+                  <LineChart data={bodyFatPoints} margin={{ left: 0, right: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                    <YAxis domain={["auto", "auto"]} unit="%" tickLine={false} axisLine={false} width={45} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <Line dataKey="bodyFat" stroke="var(--color-bodyFat)" strokeWidth={2} dot />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </TabsContent>
+
+            <TabsContent value="circumferences">
+              {circumferencePoints.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">No measurements yet.</p>
+              ) : (
+                <ChartContainer config={circumferenceChartConfig} className="h-64 w-full">
+                  <LineChart data={circumferencePoints} margin={{ left: 0, right: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                    <YAxis
+                      domain={["auto", "auto"]}
+                      unit={` ${lengthUnit(unitSystem)}`}
+                      tickLine={false}
+                      axisLine={false}
+                      width={60}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {CIRCUMFERENCE_KEYS.map((key) => (
+                      <Line
+                        key={key}
+                        dataKey={key}
+                        stroke={`var(--color-${key})`}
+                        strokeWidth={2}
+                        dot
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </TabsContent>
+          </Tabs>
+
+          <div className="space-y-2 mt-6">
+            <h4 className="text-sm font-semibold">Recent Entries</h4>
+            {measurements.slice(0, HISTORY_LIMIT).map((measurement) => {
+              const bmi = getMeasurementBMI(measurement, heightCm);
+              const details = [
+                measurement.weight_kg !== null && formatWeight(measurement.weight_kg, unitSystem),
+                bmi !== null && `BMI ${bmi}`,
+                measurement.body_fat_percent !== null && `${measurement.body_fat_percent}% fat`,
+                ...CIRCUMFERENCE_FIELDS.map(field =>
+                  measurement[field] !== null && `${CIRCUMFERENCE_LABELS[field]} ${formatLength(measurement[field], unitSystem)}`
+                ),
+              ].filter(Boolean);
+
+              return (
+                <div key={measurement.id} className="flex items-start justify-between gap-2 p-3 rounded-lg border">
+                  <div>
+                    <p className="text-xs text-muted-foreground">{format(parseDateKey(measurement.measured_on), "PP")}</p>
+                    <p className="text-sm">{details.join(" · ")}</p>
+                    {measurement.notes && <p className="text-xs text-muted-foreground">{measurement.notes}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(measurement.id)}
+                    aria-label="Delete measurement"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dumbbell } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { getExerciseName } from "@/lib/exerciseCatalog";
+import { parseDateKey } from "@/lib/dates";
+import { formatWeight, type UnitSystem } from "@/lib/units";
+import type { ExerciseSummary } from "@/lib/workoutStats";
+
+interface ExerciseSummariesProps {
+  user: User | null;
+  unitSystem?: UnitSystem;
+  refreshTrigger?: number;
+}
+
+const COLLAPSED_COUNT = 5;
+
+export const ExerciseSummaries = ({ user, unitSystem = "metric", refreshTrigger }: ExerciseSummariesProps) => {
+  const [summaries, setSummaries] = useState<ExerciseSummary[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    supabase.rpc("get_exercise_summaries").then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error("Error loading exercise summaries:", error);
+      setSummaries(data ?? []);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, refreshTrigger]);
+
+  if (!user || summaries.length === 0) return null;
+
+  const visible = expanded ? summaries : summaries.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card className="p-6 shadow-card">
+      <h3 className="text-lg font-bold flex items-center gap-2 mb-4">
+        <Dumbbell className="w-5 h-5" />
+        Exercise Summary
+      </h3>
+
+      <div className="space-y-2">
+        {visible.map((summary) => (
+          <div key={summary.exercise_id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/30">
+            <div>
+              <p className="font-medium">{getExerciseName(summary.exercise_id)}</p>
+              <p className="text-xs text-muted-foreground">
+                {summary.sessions} sessions · {summary.total_sets} sets · last {format(parseDateKey(summary.last_performed), "MMM d")}
+              </p>
+            </div>
+            <div className="text-right text-sm">
+              {summary.best_load_kg !== null && summary.best_load_kg > 0 && (
+                <p>Best {formatWeight(summary.best_load_kg, unitSystem)}</p>
+              )}
+              {summary.total_volume_kg > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {formatWeight(summary.total_volume_kg, unitSystem)} total volume
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {summaries.length > COLLAPSED_COUNT && (
+        <Button variant="ghost" size="sm" onClick={() => setExpanded(prev => !prev)} className="w-full mt-2">
+          {expanded ? "Show less" : `Show all ${summaries.length} exercises`}
+        </Button>
+      )}
+    </Card>
+  );
+};
@@ -1,62 +1,51 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Dumbbell, Activity, Apple, Heart, Sparkles, Save, Calendar } from "lucide-react";
+import { Dumbbell, Activity, Apple, Heart, Sparkles, Save, Layers, X, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useProfile } from "@/hooks/use-profile";
 import { supabase } from "@/integrations/supabase/client";
 import type { User } from "@supabase/supabase-js";
 import { MedicalRecordUpload } from "./MedicalRecordUpload";
-
-interface WeeklyPlan {
-  day: string;
-  focus: string;
-  exercises: string[];
-  duration: string;
-}
-
-interface FitnessPlan {
-  bmi: number;
-  category: string;
-  exercises: string[];
-  diet: string[];
-  notes: string[];
-  weeklyPlan: WeeklyPlan[];
-}
-
-const EQUIPMENT_OPTIONS = [
-  { id: "bodyweight", label: "Bodyweight Only" },
-  { id: "dumbbells", label: "Dumbbells" },
-  { id: "barbell", label: "Barbell & Plates" },
-  { id: "kettlebell", label: "Kettlebells" },
-  { id: "resistance_bands", label: "Resistance Bands" },
-  { id: "pull_up_bar", label: "Pull-up Bar" },
-  { id: "treadmill", label: "Treadmill" },
-  { id: "stationary_bike", label: "Stationary Bike" },
-  { id: "rowing_machine", label: "Rowing Machine" },
-  { id: "cable_machine", label: "Cable Machine" },
-  { id: "bench", label: "Workout Bench" },
-  { id: "yoga_mat", label: "Yoga Mat" },
-  { id: "medicine_ball", label: "Medicine Ball" },
-  { id: "jump_rope", label: "Jump Rope" },
-  { id: "foam_roller", label: "Foam Roller" },
-];
+import { WeeklyPlanView } from "./WeeklyPlanView";
+import { NutritionTargetsSummary } from "./NutritionTargetsSummary";
+import { MealPlanView } from "./MealPlanView";
+import { HeightInput, WeightInput } from "./MeasurementInputs";
+import { EQUIPMENT_OPTIONS, HEALTH_CONDITION_OPTIONS, formatExercise, type Contraindication } from "@/lib/exerciseCatalog";
+import { ALLERGEN_OPTIONS, type Allergen } from "@/lib/foodDatabase";
+import { DEFAULT_PROGRAM_WEEKS, MAX_PROGRAM_WEEKS, MIN_PROGRAM_WEEKS } from "@/lib/periodization";
+import { parseSavedPlanExercises, serializeChangeHistory, serializeMealPlan, serializePlanExercises } from "@/lib/planStorage";
+import { nextVersion } from "@/lib/planVersions";
+import type { PlanChange, PlanEditor } from "@/lib/planEditing";
+import { calculateAge } from "@/lib/profile";
+import { toUnitSystem, type UnitSystem } from "@/lib/units";
+import {
+  DIET_OPTIONS,
+  generatePlan as buildPlan,
+  type ActivityLevel,
+  type FitnessPlan,
+  type Gender,
+  type Goal,
+} from "@/lib/planEngine";
 
 interface FitnessPlannerProps {
   user?: User | null;
 }
 
-const DIET_OPTIONS = [
-  { id: "veg", label: "Vegetarian" },
-  { id: "nonveg", label: "Non-Vegetarian" },
-  { id: "vegan", label: "Vegan" },
-  { id: "keto", label: "Keto" },
-  { id: "paleo", label: "Paleo" },
-];
+// The saved plan new saves are versioned from
+interface BasePlan {
+  id: string;
+  lineageId: string;
+  version: number;
+  name: string | null;
+}
 
 export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
   const { toast } = useToast();
@@ -70,8 +59,92 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
     goal: "maintain",
     dietPreferences: ["veg"],
     equipment: [] as string[],
+    bodyFat: "",
+    programWeeks: String(DEFAULT_PROGRAM_WEEKS),
+    allergies: [] as Allergen[],
+    dislikedFoods: "",
+    healthConditions: [] as Contraindication[],
   });
 
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>("metric");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const regenerateFrom = searchParams.get("regenerateFrom");
+  const [basePlan, setBasePlan] = useState<BasePlan | null>(null);
+
+  // Prefill from the saved profile; anything the profile leaves blank keeps its default.
+  // Regenerating prefills from the saved plan instead.
+  const { profile, saveProfile } = useProfile(user);
+  useEffect(() => {
+    if (!profile) return;
+
+    setUnitSystem(toUnitSystem(profile.unit_preference));
+    if (regenerateFrom) return;
+
+    const age = profile.date_of_birth ? calculateAge(profile.date_of_birth) : null;
+    setFormData(prev => ({
+      ...prev,
+      name: profile.full_name ?? prev.name,
+      age: age ? String(age) : prev.age,
+      gender: profile.sex ?? prev.gender,
+      height: profile.height_cm ? String(profile.height_cm) : prev.height,
+      dietPreferences: profile.diet_preferences.length > 0 ? profile.diet_preferences : prev.dietPreferences,
+      equipment: profile.equipment,
+      allergies: profile.allergies as Allergen[],
+      dislikedFoods: profile.disliked_foods.join(", "),
+      healthConditions: profile.health_conditions as Contraindication[],
+    }));
+  }, [profile, regenerateFrom]);
+
+  useEffect(() => {
+    if (!user || !regenerateFrom) return;
+
+    const loadBasePlan = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("fitness_plans")
+          .select("*")
+          .eq("id", regenerateFrom)
+          .single();
+
+        if (error) throw error;
+
+        const weeks = parseSavedPlanExercises(data.exercises).weeks.length;
+        setFormData(prev => ({
+          ...prev,
+          name: data.name ?? prev.name,
+          age: data.age ? String(data.age) : prev.age,
+          gender: data.gender ?? prev.gender,
+          height: data.height ? String(data.height) : prev.height,
+          weight: data.weight ? String(data.weight) : prev.weight,
+          activityLevel: data.activity_level ?? prev.activityLevel,
+          goal: data.goal ?? prev.goal,
+          dietPreferences: data.diet_preferences?.length ? data.diet_preferences : prev.dietPreferences,
+          equipment: data.equipment ? data.equipment.split(", ") : [],
+          bodyFat: data.body_fat_percent ? String(data.body_fat_percent) : "",
+          programWeeks: weeks > 0 ? String(weeks) : prev.programWeeks,
+          allergies: (data.allergies ?? []) as Allergen[],
+          dislikedFoods: (data.disliked_foods ?? []).join(", "),
+          healthConditions: (data.health_conditions ?? []) as Contraindication[],
+        }));
+        setBasePlan({ id: data.id, lineageId: data.lineage_id, version: data.version, name: data.name });
+      } catch (error) {
+        console.error("Error loading plan:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the plan to regenerate",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadBasePlan();
+  }, [user, regenerateFrom, toast]);
+
+  const startNewLineage = () => {
+    setBasePlan(null);
+    setSearchParams({});
+  };
+
   const toggleEquipment = (equipmentId: string) => {
     setFormData(prev => {
       const newEquipment = prev.equipment.includes(equipmentId)
@@ -82,22 +155,38 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
   };
 
   const [plan, setPlan] = useState<FitnessPlan | null>(null);
+  // Set once the plan is saved so later edits update that row in place
+  const [savedPlanId, setSavedPlanId] = useState<string | null>(null);
+  const [planChanges, setPlanChanges] = useState<PlanChange[]>([]);
+  // The plan and change log the next edit builds on, updated with each edit
+  // rather than on render so back-to-back edits never start from a stale plan
+  const latestEdit = useRef<{ plan: FitnessPlan | null; changes: PlanChange[] }>({ plan: null, changes: [] });
+  // Edit saves run one after another, in the order the edits were made
+  const editSaves = useRef<Promise<void>>(Promise.resolve());
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [medicalRecords, setMedicalRecords] = useState<string[]>([]);
 
-  const calculateBMI = (weight: number, height: number) => {
-    const heightM = height / 100;
-    return (weight / (heightM * heightM)).toFixed(2);
+  const toggleAllergy = (allergen: Allergen) => {
+    setFormData(prev => ({
+      ...prev,
+      allergies: prev.allergies.includes(allergen)
+        ? prev.allergies.filter(a => a !== allergen)
+        : [...prev.allergies, allergen],
+    }));
   };
 
-  const getBMICategory = (bmi: number): string => {
-    if (bmi < 18.5) return "Underweight";
-    if (bmi < 25) return "Healthy";
-    if (bmi < 30) return "Overweight";
-    return "Obese";
+  const toggleHealthCondition = (condition: Contraindication) => {
+    setFormData(prev => ({
+      ...prev,
+      healthConditions: prev.healthConditions.includes(condition)
+        ? prev.healthConditions.filter(c => c !== condition)
+        : [...prev.healthConditions, condition],
+    }));
   };
 
+  const getDislikedFoods = () => formData.dislikedFoods.split(",").map(food => food.trim()).filter(Boolean);
+
   const toggleDietPreference = (dietId: string) => {
     setFormData(prev => {
       const newPrefs = prev.dietPreferences.includes(dietId)
@@ -107,50 +196,13 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
     });
   };
 
-  const generateWeeklyPlan = (goal: string, exercises: string[], activityLevel: string): WeeklyPlan[] => {
-    const days = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
-    const weeklyPlan: WeeklyPlan[] = [];
-    
-    const restDays = activityLevel === "low" ? 3 : activityLevel === "moderate" ? 2 : 1;
-    const workoutDays = 7 - restDays;
-    
-    const focusAreas = goal === "gain" 
-      ? ["Chest & Triceps", "Back & Biceps", "Legs & Glutes", "Shoulders & Core", "Full Body", "Active Recovery", "Rest"]
-      : goal === "lose"
-      ? ["HIIT & Cardio", "Upper Body", "Lower Body & Core", "Cardio & Mobility", "Full Body Circuit", "Active Recovery", "Rest"]
-      : ["Upper Body", "Lower Body", "Cardio & Core", "Full Body", "Flexibility & Mobility", "Active Recovery", "Rest"];
-
-    const durations = goal === "gain" 
-      ? ["45-60 mins", "45-60 mins", "50-60 mins", "40-50 mins", "45-55 mins", "30 mins", "Rest"]
-      : goal === "lose"
-      ? ["30-40 mins", "40-50 mins", "40-50 mins", "35-45 mins", "35-45 mins", "20-30 mins", "Rest"]
-      : ["40-50 mins", "40-50 mins", "30-40 mins", "40-50 mins", "30 mins", "20-30 mins", "Rest"];
-
-    days.forEach((day, index) => {
-      const isRestDay = index >= workoutDays;
-      const dayExercises = isRestDay 
-        ? ["Light stretching", "Walking (20-30 mins)", "Foam rolling"]
-        : exercises.slice(index * 3, index * 3 + 4).length > 0 
-          ? exercises.slice(index * 3, index * 3 + 4)
-          : exercises.slice(0, 4);
-
-      weeklyPlan.push({
-        day,
-        focus: isRestDay ? (index === 6 ? "Rest Day" : "Active Recovery") : focusAreas[index % focusAreas.length],
-        exercises: isRestDay ? ["Light stretching", "Walking", "Foam rolling"] : dayExercises,
-        duration: isRestDay ? (index === 6 ? "Rest" : "20-30 mins") : durations[index % durations.length]
-      });
-    });
-
-    return weeklyPlan;
-  };
-
   const generatePlan = () => {
     setLoading(true);
     
     try {
       const weight = parseFloat(formData.weight);
       const height = parseFloat(formData.height);
+      const age = parseInt(formData.age);
       
       if (!weight || !height || weight <= 0 || height <= 0) {
         toast({
@@ -162,145 +214,42 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
         return;
       }
 
-      const bmi = parseFloat(calculateBMI(weight, height));
-      const category = getBMICategory(bmi);
-
-      // Exercise recommendations based on selected equipment
-      const selectedEquipment = formData.equipment;
-      let exercises: string[] = [];
-
-      // Always include bodyweight exercises as base
-      if (selectedEquipment.length === 0 || selectedEquipment.includes("bodyweight")) {
-        exercises.push("Push-Ups (3x15)", "Bodyweight Squats (3x20)", "Planks (3x45s)", "Lunges (3x12 each)", "Mountain Climbers (3x30s)");
-      }
-
-      if (selectedEquipment.includes("dumbbells")) {
-        exercises.push("Dumbbell Bench Press (4x10)", "Dumbbell Shoulder Press (3x12)", "Dumbbell Bicep Curls (3x12)", "Dumbbell Rows (3x10)", "Goblet Squats (3x12)");
-      }
-
-      if (selectedEquipment.includes("barbell")) {
-        exercises.push("Barbell Deadlift (4x6)", "Barbell Squats (4x8)", "Barbell Bench Press (4x8)", "Barbell Rows (4x8)", "Overhead Press (3x10)");
-      }
-
-      if (selectedEquipment.includes("kettlebell")) {
-        exercises.push("Kettlebell Swings (4x15)", "Goblet Squats (3x12)", "Turkish Get-Ups (2x5 each)", "Kettlebell Clean & Press (3x10)");
-      }
-
-      if (selectedEquipment.includes("resistance_bands")) {
-        exercises.push("Banded Rows (3x15)", "Banded Squats (3x15)", "Banded Chest Press (3x12)", "Banded Face Pulls (3x15)", "Banded Bicep Curls (3x15)");
-      }
-
-      if (selectedEquipment.includes("pull_up_bar")) {
-        exercises.push("Pull-Ups (3x max)", "Chin-Ups (3x max)", "Hanging Leg Raises (3x10)", "Dead Hangs (3x30s)");
-      }
-
-      if (selectedEquipment.includes("treadmill")) {
-        exercises.push("Treadmill Running (20-30 mins)", "Incline Walk (15 mins)", "HIIT Sprints (10x30s)");
-      }
-
-      if (selectedEquipment.includes("stationary_bike")) {
-        exercises.push("Cycling Intervals (20 mins)", "Steady State Cycling (30 mins)", "HIIT Bike Sprints (15 mins)");
-      }
-
-      if (selectedEquipment.includes("rowing_machine")) {
-        exercises.push("Rowing Intervals (15 mins)", "Steady State Rowing (20 mins)", "500m Row Sprints (5 rounds)");
-      }
-
-      if (selectedEquipment.includes("cable_machine")) {
-        exercises.push("Cable Flyes (3x12)", "Cable Rows (3x12)", "Tricep Pushdowns (3x15)", "Face Pulls (3x15)", "Cable Woodchops (3x10 each)");
-      }
-
-      if (selectedEquipment.includes("bench")) {
-        exercises.push("Incline Dumbbell Press (3x10)", "Step-Ups (3x12 each)", "Hip Thrusts (3x12)", "Box Jumps (3x10)");
-      }
-
-      if (selectedEquipment.includes("yoga_mat")) {
-        exercises.push("Yoga Flow (15-20 mins)", "Stretching Routine (10 mins)", "Core Work (Crunches, Leg Raises)", "Glute Bridges (3x15)");
-      }
-
-      if (selectedEquipment.includes("medicine_ball")) {
-        exercises.push("Medicine Ball Slams (3x15)", "Wall Balls (3x12)", "Russian Twists with Ball (3x20)", "Med Ball Push-Ups (3x10)");
-      }
-
-      if (selectedEquipment.includes("jump_rope")) {
-        exercises.push("Jump Rope (5 mins)", "Double Unders (3x30s)", "Jump Rope HIIT (10 mins)");
-      }
-
-      // Add goal-specific exercises
-      if (formData.goal === "lose") {
-        exercises.push("Burpees (3x10)", "High Knees (3x45s)", "Box Jumps (3x10)");
-      } else if (formData.goal === "gain") {
-        exercises.push("Progressive Overload Focus", "Compound Movements Priority", "Rest 2-3 mins between sets");
-      }
-
-      // Generate weekly plan
-      const weeklyPlan: WeeklyPlan[] = generateWeeklyPlan(formData.goal, exercises, formData.activityLevel);
-
-      // Diet recommendations based on selected preferences
-      const diet: string[] = [];
-      const hasVeg = formData.dietPreferences.includes("veg");
-      const hasNonVeg = formData.dietPreferences.includes("nonveg");
-      const hasVegan = formData.dietPreferences.includes("vegan");
-      const hasKeto = formData.dietPreferences.includes("keto");
-
-      if (formData.goal === "gain") {
-        if (hasNonVeg) {
-          diet.push("Breakfast: Omelette + Whole wheat bread + Milk", "Lunch: Brown rice + Grilled Chicken + Veggies");
-        }
-        if (hasVeg || hasVegan) {
-          diet.push("Breakfast: Paneer bhurji + Whole wheat bread", "Lunch: Rajma + Brown rice + Ghee");
-        }
-        if (hasKeto) {
-          diet.push("Breakfast: Eggs + Avocado + Cheese", "Lunch: Grilled meat + Leafy greens + Olive oil");
-        }
-        diet.push("Snack: Dry fruits + Smoothie", "Dinner: High-protein meal + Salad");
-      } else if (formData.goal === "lose") {
-        if (hasNonVeg) {
-          diet.push("Breakfast: Boiled eggs + Oats", "Lunch: Grilled fish + Brown rice + Salad");
-        }
-        if (hasVeg || hasVegan) {
-          diet.push("Breakfast: Oats + Banana + Green tea", "Lunch: Moong dal + Brown rice + Veggies");
-        }
-        if (hasKeto) {
-          diet.push("Breakfast: Eggs + Spinach + Butter", "Lunch: Grilled protein + Cauliflower rice");
-        }
-        diet.push("Snack: Roasted chana + Buttermilk", "Dinner: Light soup + Salad");
-      } else {
-        if (hasNonVeg) {
-          diet.push("Breakfast: Scrambled eggs + Fruits", "Lunch: Mixed dal + Chicken + Veg curry");
-        }
-        if (hasVeg || hasVegan) {
-          diet.push("Breakfast: Upma/Poha + Milk", "Lunch: Khichdi + Curd + Salad");
-        }
-        diet.push("Snack: Fresh fruits + Nuts", "Dinner: Balanced meal + Vegetables");
+      if (!age || age <= 0) {
+        toast({
+          title: "Invalid Input",
+          description: "Please enter your age to calculate calorie targets",
+          variant: "destructive",
+        });
+        setLoading(false);
+        return;
       }
 
-      // Notes
-      const notes: string[] = [
-        `Your BMI: ${bmi} (${category})`,
-        formData.goal === "lose" ? "Focus on calorie deficit and daily step target (8k-10k)" : 
-        formData.goal === "gain" ? "Add 400-500 kcal/day; focus on protein-rich meals" :
-        "Maintain balance with consistent training & nutrition",
-        "Stay hydrated - drink 2-3 liters of water daily",
-        "Get 7-8 hours of quality sleep for recovery",
-        `Diet preferences: ${formData.dietPreferences.map(p => DIET_OPTIONS.find(o => o.id === p)?.label).join(", ")}`,
-        `Equipment: ${selectedEquipment.length > 0 ? selectedEquipment.map(e => EQUIPMENT_OPTIONS.find(o => o.id === e)?.label).join(", ") : "Bodyweight only"}`
-      ];
-
-      setPlan({
-        bmi,
-        category,
-        exercises: [...new Set(exercises)].slice(0, 12),
-        diet: Array.from(new Set(diet)).slice(0, 6),
-        notes,
-        weeklyPlan
+      const generated = buildPlan({
+        age,
+        gender: formData.gender as Gender,
+        height,
+        weight,
+        activityLevel: formData.activityLevel as ActivityLevel,
+        goal: formData.goal as Goal,
+        dietPreferences: formData.dietPreferences,
+        equipment: formData.equipment,
+        programWeeks: parseInt(formData.programWeeks),
+        bodyFatPercent: formData.bodyFat ? parseFloat(formData.bodyFat) : null,
+        allergies: formData.allergies,
+        dislikedFoods: getDislikedFoods(),
+        healthConditions: formData.healthConditions,
       });
+      setPlan(generated);
+      setSavedPlanId(null);
+      setPlanChanges([]);
+      latestEdit.current = { plan: generated, changes: [] };
 
       toast({
         title: "Plan Generated! 🎉",
         description: "Your personalized fitness plan is ready",
       });
     } catch (error) {
+      console.error("Plan generation error:", error);
       toast({
         title: "Error",
         description: "Failed to generate plan",
@@ -321,12 +270,26 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
       return;
     }
 
-    if (!plan) return;
+    // Once saved, edits go to the saved row; saving again would only duplicate it
+    if (!plan || savedPlanId) return;
 
     setSaving(true);
     try {
-      const { error } = await supabase.from("fitness_plans").insert([{
+      let version = 1;
+      if (basePlan) {
+        const { data: versions, error: versionsError } = await supabase
+          .from("fitness_plans")
+          .select("version")
+          .eq("lineage_id", basePlan.lineageId);
+
+        if (versionsError) throw versionsError;
+        version = nextVersion(versions);
+      }
+
+      const { data, error } = await supabase.from("fitness_plans").insert([{
         user_id: user.id,
+        ...(basePlan && { lineage_id: basePlan.lineageId, parent_plan_id: basePlan.id }),
+        version,
         name: formData.name || `${formData.goal} Plan`,
         age: parseInt(formData.age),
         gender: formData.gender,
@@ -335,20 +298,33 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
         activity_level: formData.activityLevel,
         goal: formData.goal,
         diet_preferences: formData.dietPreferences,
+        allergies: formData.allergies,
+        disliked_foods: getDislikedFoods(),
+        health_conditions: formData.healthConditions,
         equipment: formData.equipment.join(", "),
         bmi: plan.bmi,
         bmi_category: plan.category,
-        exercises: JSON.parse(JSON.stringify({ list: plan.exercises, weeklyPlan: plan.weeklyPlan })),
-        diet_plan: plan.diet as unknown as import("@/integrations/supabase/types").Json,
+        body_fat_percent: formData.bodyFat ? parseFloat(formData.bodyFat) : null,
+        nutrition_targets: plan.nutrition as unknown as import("@/integrations/supabase/types").Json,
+        exercises: serializePlanExercises(plan),
+        diet_plan: serializeMealPlan(plan),
         notes: plan.notes as unknown as import("@/integrations/supabase/types").Json,
         medical_records: medicalRecords,
-      }]);
+        change_history: serializeChangeHistory(planChanges),
+      }]).select("id, lineage_id, version, name").single();
 
       if (error) throw error;
+      setSavedPlanId(data.id);
+      // A first plan, or a new version of the active one, becomes the active plan
+      if (!profile?.active_plan_id || profile.active_plan_id === basePlan?.id) {
+        saveProfile({ active_plan_id: data.id }).catch(error => console.error("Error setting active plan:", error));
+      }
+      // Plans generated after this one continue its lineage
+      setBasePlan({ id: data.id, lineageId: data.lineage_id, version: data.version, name: data.name });
 
       toast({
         title: "Saved! 💾",
-        description: "Your fitness plan has been saved to history",
+        description: `Your fitness plan has been saved to history as version ${data.version}`,
       });
     } catch (error) {
       console.error("Save error:", error);
@@ -362,6 +338,42 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
     }
   };
 
+  const handlePlanEdit = (editPlan: PlanEditor) => {
+    const { plan: current, changes } = latestEdit.current;
+    if (!current) return;
+
+    const edit = editPlan(current.weeklyPlan);
+    if (!edit) return;
+
+    const updatedPlan = { ...current, weeklyPlan: edit.weeklyPlan };
+    const updatedChanges = [...changes, edit.change];
+    latestEdit.current = { plan: updatedPlan, changes: updatedChanges };
+    setPlan(updatedPlan);
+    setPlanChanges(updatedChanges);
+
+    if (!savedPlanId) return;
+
+    const planId = savedPlanId;
+    editSaves.current = editSaves.current.then(async () => {
+      const { error } = await supabase
+        .from("fitness_plans")
+        .update({
+          exercises: serializePlanExercises(updatedPlan),
+          change_history: serializeChangeHistory(updatedChanges),
+        })
+        .eq("id", planId);
+
+      if (error) {
+        console.error("Update error:", error);
+        toast({
+          title: "Error",
+          description: "Failed to save your changes",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
   const getCategoryColor = (category: string) => {
     switch (category) {
       case "Underweight": return "text-yellow-600";
@@ -386,6 +398,21 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
             </div>
           </div>
 
+          {basePlan && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-primary/5 border-primary/20">
+              <div className="flex items-center gap-2 text-sm">
+                <Layers className="w-4 h-4 text-primary" />
+                <span>
+                  Saving adds a new version of <span className="font-semibold">{basePlan.name || "Unnamed Plan"}</span> (currently v{basePlan.version})
+                </span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={startNewLineage} className="gap-2">
+                <X className="w-4 h-4" />
+                Start New Plan
+              </Button>
+            </div>
+          )}
+
           <div className="grid md:grid-cols-2 gap-6">
             <div className="space-y-2">
               <Label htmlFor="name">Name</Label>
@@ -425,24 +452,43 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="height">Height (cm)</Label>
-              <Input
-                id="height"
-                type="number"
-                placeholder="170"
-                value={formData.height}
-                onChange={(e) => setFormData({ ...formData, height: e.target.value })}
-              />
+              <Label>Units</Label>
+              <RadioGroup value={unitSystem} onValueChange={(value) => setUnitSystem(toUnitSystem(value))}>
+                <div className="flex gap-4">
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="metric" id="metric" />
+                    <Label htmlFor="metric">Metric</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="imperial" id="imperial" />
+                    <Label htmlFor="imperial">Imperial</Label>
+                  </div>
+                </div>
+              </RadioGroup>
             </div>
 
+            <HeightInput
+              id="height"
+              valueCm={formData.height ? parseFloat(formData.height) : null}
+              unitSystem={unitSystem}
+              onChange={(cm) => setFormData(prev => ({ ...prev, height: cm === null ? "" : String(cm) }))}
+            />
+
+            <WeightInput
+              id="weight"
+              valueKg={formData.weight ? parseFloat(formData.weight) : null}
+              unitSystem={unitSystem}
+              onChange={(kg) => setFormData(prev => ({ ...prev, weight: kg === null ? "" : String(kg) }))}
+            />
+
             <div className="space-y-2">
-              <Label htmlFor="weight">Weight (kg)</Label>
+              <Label htmlFor="bodyFat">Body Fat % (optional)</Label>
               <Input
-                id="weight"
+                id="bodyFat"
                 type="number"
-                placeholder="65"
-                value={formData.weight}
-                onChange={(e) => setFormData({ ...formData, weight: e.target.value })}
+                placeholder="20"
+                value={formData.bodyFat}
+                onChange={(e) => setFormData({ ...formData, bodyFat: e.target.value })}
               />
             </div>
 
@@ -486,6 +532,24 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
               </RadioGroup>
             </div>
 
+            {formData.goal === "gain" && (
+              <div className="space-y-2">
+                <Label>Program Length</Label>
+                <Select value={formData.programWeeks} onValueChange={(value) => setFormData({ ...formData, programWeeks: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_PROGRAM_WEEKS - MIN_PROGRAM_WEEKS + 1 }, (_, i) => MIN_PROGRAM_WEEKS + i).map((weeks) => (
+                      <SelectItem key={weeks} value={String(weeks)}>
+                        {weeks} weeks
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2 md:col-span-2">
               <Label>Diet Preferences (Select multiple)</Label>
               <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -507,6 +571,37 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
               </div>
             </div>
 
+            <div className="space-y-2 md:col-span-2">
+              <Label>Allergies & Intolerances</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {ALLERGEN_OPTIONS.map((option) => (
+                  <div key={option.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`allergy-${option.id}`}
+                      checked={formData.allergies.includes(option.id)}
+                      onCheckedChange={() => toggleAllergy(option.id)}
+                    />
+                    <Label
+                      htmlFor={`allergy-${option.id}`}
+                      className="text-sm font-normal cursor-pointer"
+                    >
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="dislikedFoods">Foods to Avoid (comma separated)</Label>
+              <Input
+                id="dislikedFoods"
+                placeholder="e.g. mushroom, broccoli, paneer"
+                value={formData.dislikedFoods}
+                onChange={(e) => setFormData({ ...formData, dislikedFoods: e.target.value })}
+              />
+            </div>
+
             <div className="space-y-2 md:col-span-2">
               <Label>Available Equipment (Select all that apply)</Label>
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
@@ -529,6 +624,30 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label>Health Conditions & Injuries</Label>
+            <p className="text-sm text-muted-foreground">
+              Exercises that could aggravate these are replaced with safer alternatives
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {HEALTH_CONDITION_OPTIONS.map((option) => (
+                <div key={option.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`condition-${option.id}`}
+                    checked={formData.healthConditions.includes(option.id)}
+                    onCheckedChange={() => toggleHealthCondition(option.id)}
+                  />
+                  <Label
+                    htmlFor={`condition-${option.id}`}
+                    className="text-sm font-normal cursor-pointer"
+                  >
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
           <MedicalRecordUpload
             onUploadComplete={setMedicalRecords}
             existingRecords={medicalRecords}
@@ -570,11 +689,16 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
               {user && (
                 <Button
                   onClick={savePlan}
-                  disabled={saving}
+                  disabled={saving || savedPlanId !== null}
                   className="gradient-calm hover:opacity-90 transition-opacity"
                 >
                   {saving ? (
                     "Saving..."
+                  ) : savedPlanId ? (
+                    <>
+                      <Check className="w-4 h-4 mr-2" />
+                      Saved
+                    </>
                   ) : (
                     <>
                       <Save className="w-4 h-4 mr-2" />
@@ -595,7 +719,7 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
                   {plan.exercises.map((exercise, index) => (
                     <li key={index} className="flex items-start gap-2">
                       <span className="text-primary mt-1">•</span>
-                      <span>{exercise}</span>
+                      <span>{formatExercise(exercise)}</span>
                     </li>
                   ))}
                 </ul>
@@ -606,63 +730,20 @@ export const FitnessPlanner = ({ user }: FitnessPlannerProps) => {
                   <Apple className="w-5 h-5 text-secondary" />
                   <h3 className="text-xl font-bold">Diet Plan</h3>
                 </div>
-                <ul className="space-y-2">
-                  {plan.diet.map((meal, index) => (
-                    <li key={index} className="flex items-start gap-2">
-                      <span className="text-secondary mt-1">•</span>
-                      <span className="text-sm">{meal}</span>
-                    </li>
-                  ))}
-                </ul>
+                <NutritionTargetsSummary targets={plan.nutrition} />
+                <MealPlanView mealPlan={plan.mealPlan} />
               </div>
             </div>
 
             {/* Weekly Plan Section */}
             <div className="mt-6">
-              <div className="flex items-center gap-2 mb-4">
-                <Calendar className="w-5 h-5 text-primary" />
-                <h3 className="text-xl font-bold">Weekly Plan</h3>
-              </div>
-              <div className="grid gap-3">
-                {plan.weeklyPlan.map((day, index) => (
-                  <div 
-                    key={index} 
-                    className={`p-4 rounded-xl border ${
-                      day.focus === "Rest Day" 
-                        ? "bg-muted/50 border-muted" 
-                        : day.focus === "Active Recovery"
-                        ? "bg-secondary/10 border-secondary/30"
-                        : "bg-primary/5 border-primary/20"
-                    }`}
-                  >
-                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
-                      <div className="flex items-center gap-3">
-                        <span className="font-bold text-lg min-w-[100px]">{day.day}</span>
-                        <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-                          day.focus === "Rest Day" 
-                            ? "bg-muted text-muted-foreground" 
-                            : day.focus === "Active Recovery"
-                            ? "bg-secondary/20 text-secondary-foreground"
-                            : "bg-primary/20 text-primary"
-                        }`}>
-                          {day.focus}
-                        </span>
-                        <span className="text-sm text-muted-foreground">({day.duration})</span>
-                      </div>
-                    </div>
-                    <div className="mt-2 flex flex-wrap gap-2">
-                      {day.exercises.map((exercise, exIndex) => (
-                        <span 
-                          key={exIndex} 
-                          className="text-xs px-2 py-1 rounded-md bg-background border"
-                        >
-                          {exercise}
-                        </span>
-                      ))}
-                    </div>
-                  </div>
-                ))}
-              </div>
+              <WeeklyPlanView
+                weeklyPlan={plan.weeklyPlan}
+                weeks={plan.weeks}
+                equipment={formData.equipment}
+                healthConditions={formData.healthConditions}
+                onEdit={handlePlanEdit}
+              />
             </div>
 
             <div className="mt-6 p-4 rounded-xl bg-primary/5 border border-primary/20">
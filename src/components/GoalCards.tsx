@@ -0,0 +1,382 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Flag, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { EXERCISE_CATALOG } from "@/lib/exerciseCatalog";
+import { getSetKind } from "@/lib/workoutSets";
+import { type UnitSystem } from "@/lib/units";
+import { addDaysToKey, getBrowserTimeZone, parseDateKey, startOfMonthKey, startOfWeekKey, todayKey } from "@/lib/dates";
+import {
+  GOAL_TYPE_OPTIONS,
+  computeGoalProgress,
+  describeGoal,
+  formatGoalValue,
+  toGoalRow,
+  validateGoalDraft,
+  type Goal,
+  type GoalData,
+  type GoalDraft,
+  type GoalProgress,
+  type GoalType,
+} from "@/lib/goals";
+import { WeightInput } from "./MeasurementInputs";
+
+interface GoalCardsProps {
+  user: User | null;
+  unitSystem?: UnitSystem;
+  timeZone?: string;
+  refreshTrigger?: number;
+}
+
+const EMPTY_DRAFT: GoalDraft = {
+  goalType: "target_weight",
+  targetValue: null,
+  exerciseId: "",
+  targetDate: "",
+};
+
+const EMPTY_DATA: GoalData = { weighIns: [], liftBests: {}, logs: [] };
+
+const LIFT_EXERCISES = EXERCISE_CATALOG.filter(
+  exercise => exercise.category === "strength" && getSetKind(exercise.id) === "reps"
+);
+
+const formatDay = (date: string) => format(parseDateKey(date), "MMM d");
+
+export const GoalCards = ({
+  user,
+  unitSystem = "metric",
+  timeZone = getBrowserTimeZone(),
+  refreshTrigger,
+}: GoalCardsProps) => {
+  const { toast } = useToast();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [data, setData] = useState<GoalData>(EMPTY_DATA);
+  const [showForm, setShowForm] = useState(false);
+  const [draft, setDraft] = useState<GoalDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Goals with an achieved_on update in flight or done
+  const stamping = useRef<Set<string>>(new Set());
+  const today = todayKey(timeZone);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    const since = [startOfWeekKey(today), startOfMonthKey(today)].sort()[0];
+
+    const load = async () => {
+      const [goalsResult, weighInsResult, recordsResult, logsResult] = await Promise.all([
+        supabase.from("goals").select("*").eq("user_id", user.id).order("created_at", { ascending: true }),
+        supabase
+          .from("body_measurements")
+          .select("measured_on, weight_kg")
+          .eq("user_id", user.id)
+          .not("weight_kg", "is", null)
+          .order("measured_on", { ascending: true }),
+        supabase
+          .from("personal_records")
+          .select("exercise_id, value, achieved_on")
+          .eq("user_id", user.id)
+          .eq("record_type", "max_weight")
+          .order("achieved_on", { ascending: true }),
+        supabase
+          .from("workout_logs")
+          .select("workout_date, duration_minutes")
+          .eq("user_id", user.id)
+          .gte("workout_date", since),
+      ]);
+      if (cancelled) return;
+
+      [goalsResult, weighInsResult, recordsResult, logsResult].forEach(({ error }) => {
+        if (error) console.error("Error loading goals:", error);
+      });
+
+      const liftBests: GoalData["liftBests"] = {};
+      (recordsResult.data ?? []).forEach(record => {
+        liftBests[record.exercise_id] = [
+          ...(liftBests[record.exercise_id] ?? []),
+          { date: record.achieved_on, value: record.value },
+        ];
+      });
+
+      setGoals(goalsResult.data ?? []);
+      setData({
+        weighIns: (weighInsResult.data ?? []).flatMap(({ measured_on, weight_kg }) =>
+          weight_kg === null ? [] : [{ date: measured_on, value: weight_kg }]
+        ),
+        liftBests,
+        logs: logsResult.data ?? [],
+      });
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, today, refreshTrigger, reloadCount]);
+
+  // One-off goals are stamped the first time they're reached. The update only
+  // matches unstamped rows, so a goal is announced once however often this runs.
+  useEffect(() => {
+    goals.forEach(goal => {
+      if (goal.achieved_on || goal.goal_type === "weekly_workouts" || goal.goal_type === "monthly_minutes") return;
+      if (stamping.current.has(goal.id) || !computeGoalProgress(goal, data, today).achieved) return;
+
+      stamping.current.add(goal.id);
+      supabase
+        .from("goals")
+        .update({ achieved_on: today })
+        .eq("id", goal.id)
+        .is("achieved_on", null)
+        .select()
+        .then(({ data: stamped, error }) => {
+          if (error) {
+            console.error("Goal update error:", error);
+            stamping.current.delete(goal.id);
+            return;
+          }
+          if (!stamped?.length) return;
+
+          setGoals(prev => prev.map(g => (g.id === goal.id ? stamped[0] : g)));
+          toast({
+            title: "Goal Reached! 🎯",
+            description: describeGoal(goal, unitSystem),
+          });
+        });
+    });
+  }, [goals, data, today, unitSystem, toast]);
+
+  // Where a weight or lift goal starts from, so progress can be shown as a share of the way there
+  const getStartValue = (goalType: GoalType, exerciseId: string): number | null => {
+    if (goalType === "target_weight") return data.weighIns[data.weighIns.length - 1]?.value ?? null;
+    if (goalType === "lift_pr") {
+      const bests = data.liftBests[exerciseId] ?? [];
+      return bests.length > 0 ? Math.max(...bests.map(best => best.value)) : null;
+    }
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+
+    const startValue = getStartValue(draft.goalType, draft.exerciseId);
+    const invalid = validateGoalDraft(draft, startValue, today);
+    if (invalid) {
+      toast({
+        title: "Invalid Goal",
+        description: invalid,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("goals")
+        .insert(toGoalRow(user.id, draft, startValue, today));
+      if (error) throw error;
+
+      toast({
+        title: "Goal Set! 🎯",
+        description: "We'll track your progress from today",
+      });
+      setDraft(EMPTY_DRAFT);
+      setShowForm(false);
+      setReloadCount(prev => prev + 1);
+    } catch (error) {
+      console.error("Goal error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save goal",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteGoal = async (id: string) => {
+    const { error } = await supabase.from("goals").delete().eq("id", id);
+    if (error) {
+      console.error("Delete goal error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete goal",
+        variant: "destructive",
+      });
+      return;
+    }
+    setGoals(prev => prev.filter(goal => goal.id !== id));
+  };
+
+  const describeProjection = (goal: Goal, progress: GoalProgress): string => {
+    if (progress.achieved) {
+      return progress.periodEnd ? "Reached for this period" : `Reached ${formatDay(goal.achieved_on ?? today)}`;
+    }
+    if (progress.periodEnd) {
+      return progress.projectedDate
+        ? `On pace to reach it by ${formatDay(progress.projectedDate)}`
+        : `Behind pace · resets after ${formatDay(progress.periodEnd)}`;
+    }
+    if (!progress.projectedDate) return "Not enough progress yet to project a date";
+    const late = goal.target_date && progress.projectedDate > goal.target_date;
+    return `Projected ${format(parseDateKey(progress.projectedDate), "MMM d, yyyy")}${late ? " · behind schedule" : ""}`;
+  };
+
+  const renderTargetInput = () => {
+    if (draft.goalType === "target_weight" || draft.goalType === "lift_pr") {
+      return (
+        <WeightInput
+          id="goalTarget"
+          label="Target"
+          valueKg={draft.targetValue}
+          unitSystem={unitSystem}
+          onChange={(targetValue) => setDraft(prev => ({ ...prev, targetValue }))}
+        />
+      );
+    }
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="goalTarget">{draft.goalType === "weekly_workouts" ? "Workouts per week" : "Minutes per month"}</Label>
+        <Input
+          id="goalTarget"
+          type="number"
+          min={1}
+          value={draft.targetValue ?? ""}
+          onChange={(e) => setDraft({ ...draft, targetValue: parseInt(e.target.value) || null })}
+        />
+      </div>
+    );
+  };
+
+  if (!user) return null;
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Flag className="w-5 h-5 text-primary" />
+          Goals
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => setShowForm(prev => !prev)} className="gap-2">
+          <Plus className="w-4 h-4" />
+          {showForm ? "Close" : "Add Goal"}
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="space-y-4 mb-6 p-4 rounded-lg border">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Goal</Label>
+              <Select
+                value={draft.goalType}
+                onValueChange={(value) => setDraft({ ...EMPTY_DRAFT, goalType: value as GoalType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GOAL_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.goalType === "lift_pr" && (
+              <div className="space-y-2">
+                <Label>Exercise</Label>
+                <Select value={draft.exerciseId} onValueChange={(exerciseId) => setDraft({ ...draft, exerciseId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick an exercise" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIFT_EXERCISES.map((exercise) => (
+                      <SelectItem key={exercise.id} value={exercise.id}>
+                        {exercise.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {renderTargetInput()}
+            {(draft.goalType === "target_weight" || draft.goalType === "lift_pr") && (
+              <div className="space-y-2">
+                <Label htmlFor="goalTargetDate">Target Date (optional)</Label>
+                <Input
+                  id="goalTargetDate"
+                  type="date"
+                  min={addDaysToKey(today, 1)}
+                  value={draft.targetDate}
+                  onChange={(e) => setDraft({ ...draft, targetDate: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <Button onClick={handleSubmit} disabled={saving} className="w-full gradient-energy hover:opacity-90">
+            {saving ? "Saving..." : "Save Goal"}
+          </Button>
+        </div>
+      )}
+
+      {goals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Set a target weight, a weekly workout count, a lift to beat or monthly minutes to stay on track.
+        </p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {goals.map((goal) => {
+            const progress = computeGoalProgress(goal, data, today);
+            return (
+              <div key={goal.id} className="p-4 rounded-xl border bg-muted/30 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-semibold flex items-center gap-1">
+                      {progress.achieved && <CheckCircle2 className="w-4 h-4 text-green-500" />}
+                      {describeGoal(goal, unitSystem)}
+                    </p>
+                    {goal.target_date && (
+                      <p className="text-xs text-muted-foreground">by {format(parseDateKey(goal.target_date), "MMM d, yyyy")}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteGoal(goal.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label="Delete goal"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Progress value={progress.progress * 100} />
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {progress.current === null ? "No data yet" : `Now ${formatGoalValue(goal, progress.current, unitSystem)}`}
+                  </span>
+                  <span>{Math.round(progress.progress * 100)}%</span>
+                </div>
+                <p className="text-xs">{describeProjection(goal, progress)}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
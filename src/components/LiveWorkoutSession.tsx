@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Check, Pause, Play, SkipForward, Square, Timer, X } from "lucide-react";
+import { useWakeLock } from "@/hooks/use-wake-lock";
+import { getExerciseName } from "@/lib/exerciseCatalog";
+import { weightUnit, type UnitSystem } from "@/lib/units";
+import { RPE_MAX, RPE_MIN, SET_FIELDS, SET_FIELD_LABELS, formatDuration, formatSet, getSetKind, type WorkoutSet } from "@/lib/workoutSets";
+import {
+  completeCurrentSet,
+  extendRest,
+  getCurrentExercise,
+  getElapsedMs,
+  getRestRemainingMs,
+  goToExercise,
+  isPaused,
+  isSessionComplete,
+  pauseSession,
+  resumeSession,
+  skipRest,
+  updateCurrentSet,
+  type WorkoutSession,
+} from "@/lib/workoutSession";
+
+interface LiveWorkoutSessionProps {
+  session: WorkoutSession;
+  unitSystem: UnitSystem;
+  previousSets: Record<string, WorkoutSet[]>;
+  onChange: (session: WorkoutSession) => void;
+  onFinish: () => void;
+  onCancel: () => void;
+}
+
+const REST_STEP_SECONDS = 15;
+
+export const LiveWorkoutSession = ({
+  session,
+  unitSystem,
+  previousSets,
+  onChange,
+  onFinish,
+  onCancel,
+}: LiveWorkoutSessionProps) => {
+  const [now, setNow] = useState(Date.now());
+  const paused = isPaused(session);
+
+  useWakeLock(!paused);
+
+  useEffect(() => {
+    if (paused) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [paused]);
+
+  const elapsedSeconds = Math.floor(getElapsedMs(session, now) / 1000);
+  const restRemaining = Math.ceil(getRestRemainingMs(session, now) / 1000);
+  const exercise = getCurrentExercise(session);
+  const sets = exercise ? session.sets[exercise] : [];
+  const set = sets[session.setIndex];
+  const fields = exercise ? SET_FIELDS[getSetKind(exercise)] : [];
+  const previous = exercise ? previousSets[exercise] : undefined;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs text-muted-foreground">Elapsed</p>
+          <p className="text-2xl font-bold tabular-nums">{formatDuration(elapsedSeconds)}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(paused ? resumeSession(session, Date.now()) : pauseSession(session, Date.now()))}
+            className="gap-2"
+          >
+            {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            {paused ? "Resume" : "Pause"}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onCancel} aria-label="Discard workout">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Progress value={(session.exerciseIndex / Math.max(1, session.exercises.length)) * 100} />
+
+      {paused && (
+        <p className="text-sm text-muted-foreground text-center">
+          Paused. Resume whenever you're ready, even after closing this page.
+        </p>
+      )}
+
+      {!paused && restRemaining > 0 && (
+        <div className="p-4 rounded-xl border bg-secondary/10 border-secondary/30 text-center space-y-2">
+          <p className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+            <Timer className="w-4 h-4" /> Rest
+          </p>
+          <p className="text-4xl font-bold tabular-nums">{formatDuration(restRemaining)}</p>
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => onChange(extendRest(session, -REST_STEP_SECONDS, Date.now()))}>
+              −{REST_STEP_SECONDS}s
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onChange(extendRest(session, REST_STEP_SECONDS, Date.now()))}>
+              +{REST_STEP_SECONDS}s
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onChange(skipRest(session))} className="gap-1">
+              <SkipForward className="w-4 h-4" /> Skip
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isSessionComplete(session) || !exercise || !set ? (
+        <div className="text-center space-y-2">
+          <p className="text-lg font-semibold">All exercises done 🎉</p>
+          <p className="text-sm text-muted-foreground">Finish to review your sets and log the workout.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <p className="text-xs text-muted-foreground">
+              Exercise {session.exerciseIndex + 1} of {session.exercises.length}
+            </p>
+            <p className="text-xl font-bold">{getExerciseName(exercise)}</p>
+            <p className="text-sm text-muted-foreground">Set {session.setIndex + 1} of {sets.length}</p>
+            {previous && (
+              <p className="text-xs text-muted-foreground">
+                Last time: {previous.map(s => formatSet(s, unitSystem)).join(", ")}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {fields.map((field) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`session-${field}`}>
+                  {field === "load" ? `Load (${weightUnit(unitSystem)})` : SET_FIELD_LABELS[field]}
+                </Label>
+                <Input
+                  id={`session-${field}`}
+                  type="number"
+                  min={0}
+                  step={field === "load" ? "0.5" : undefined}
+                  value={set[field]}
+                  onChange={(e) => onChange(updateCurrentSet(session, { [field]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label htmlFor="session-rpe">RPE</Label>
+              <Input
+                id="session-rpe"
+                type="number"
+                min={RPE_MIN}
+                max={RPE_MAX}
+                step="0.5"
+                value={set.rpe}
+                onChange={(e) => onChange(updateCurrentSet(session, { rpe: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="session-rest">Rest after (secs)</Label>
+              <Input
+                id="session-rest"
+                type="number"
+                min={0}
+                step="15"
+                value={set.rest}
+                onChange={(e) => onChange(updateCurrentSet(session, { rest: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={() => onChange(completeCurrentSet(session, Date.now()))}
+              disabled={paused}
+              className="flex-1 gradient-energy hover:opacity-90 gap-2"
+            >
+              <Check className="w-4 h-4" />
+              Complete Set
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => onChange(goToExercise(session, session.exerciseIndex + 1))}
+              className="gap-2"
+            >
+              <SkipForward className="w-4 h-4" />
+              Skip Exercise
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Button variant="outline" onClick={onFinish} className="w-full gap-2">
+        <Square className="w-4 h-4" />
+        Finish Workout
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle } from "lucide-react";
+import { MEAL_LABELS, formatMealItem, type MealPlan } from "@/lib/mealPlanner";
+import type { Macros } from "@/lib/foodDatabase";
+
+interface MealPlanViewProps {
+  mealPlan: MealPlan;
+}
+
+const formatMacros = (macros: Macros) =>
+  `${macros.calories} kcal · P ${macros.protein}g · C ${macros.carbs}g · F ${macros.fat}g`;
+
+export const MealPlanView = ({ mealPlan }: MealPlanViewProps) => {
+  const [selectedDay, setSelectedDay] = useState(0);
+  const day = mealPlan.days[selectedDay] ?? mealPlan.days[0];
+
+  if (!day) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <Select value={String(selectedDay)} onValueChange={(value) => setSelectedDay(parseInt(value))}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {mealPlan.days.map((d, index) => (
+              <SelectItem key={d.day} value={String(index)}>
+                {d.day}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground text-right">{formatMacros(day.totals)}</span>
+      </div>
+
+      {!day.withinTolerance && (
+        <p className="flex items-center gap-2 text-xs text-destructive">
+          <AlertTriangle className="w-4 h-4" />
+          This day misses the macro targets with the selected diet preferences
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {day.meals.map((meal) => (
+          <div key={meal.type} className="p-3 rounded-lg border bg-secondary/5 border-secondary/20">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-sm">{MEAL_LABELS[meal.type]}</span>
+              <span className="text-xs text-muted-foreground">{formatMacros(meal.totals)}</span>
+            </div>
+            <ul className="mt-1 space-y-1">
+              {meal.items.map((item) => (
+                <li key={item.foodId} className="flex items-start gap-2 text-sm">
+                  <span className="text-secondary">•</span>
+                  <span>{formatMealItem(item)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
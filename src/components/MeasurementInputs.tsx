@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  cmToFeetInches,
+  feetInchesToCm,
+  fromDisplayLength,
+  fromDisplayWeight,
+  lengthUnit,
+  toDisplayLength,
+  toDisplayWeight,
+  weightUnit,
+  type UnitSystem,
+} from "@/lib/units";
+
+interface HeightInputProps {
+  id: string;
+  // Canonical value in centimetres
+  valueCm: number | null;
+  unitSystem: UnitSystem;
+  onChange: (cm: number | null) => void;
+}
+
+interface WeightInputProps {
+  id: string;
+  label?: string;
+  // Canonical value in kilograms
+  valueKg: number | null;
+  unitSystem: UnitSystem;
+  onChange: (kg: number | null) => void;
+}
+
+interface LengthInputProps {
+  id: string;
+  label: string;
+  // Canonical value in centimetres
+  valueCm: number | null;
+  unitSystem: UnitSystem;
+  onChange: (cm: number | null) => void;
+}
+
+interface Synced {
+  value: number | null;
+  unitSystem: UnitSystem;
+}
+
+const parsePositive = (text: string): number | null => {
+  const value = parseFloat(text);
+  return value > 0 ? value : null;
+};
+
+// The fields keep their own text so typing is not rewritten by the metric
+// round-trip; they only resync on unit switches and outside value changes.
+export const HeightInput = ({ id, valueCm, unitSystem, onChange }: HeightInputProps) => {
+  const [cmText, setCmText] = useState("");
+  const [feetText, setFeetText] = useState("");
+  const [inchesText, setInchesText] = useState("");
+  const synced = useRef<Synced | null>(null);
+
+  useEffect(() => {
+    if (synced.current?.value === valueCm && synced.current.unitSystem === unitSystem) return;
+    synced.current = { value: valueCm, unitSystem };
+
+    const { feet, inches } = valueCm === null ? { feet: null, inches: null } : cmToFeetInches(valueCm);
+    setCmText(valueCm === null ? "" : String(Math.round(valueCm * 10) / 10));
+    setFeetText(feet === null ? "" : String(feet));
+    setInchesText(inches === null ? "" : String(Math.round(inches)));
+  }, [valueCm, unitSystem]);
+
+  const emit = (cm: number | null) => {
+    synced.current = { value: cm, unitSystem };
+    onChange(cm);
+  };
+
+  const updateImperial = (feet: string, inches: string) => {
+    setFeetText(feet);
+    setInchesText(inches);
+    const cm = feetInchesToCm(parseFloat(feet) || 0, parseFloat(inches) || 0);
+    emit(cm > 0 ? cm : null);
+  };
+
+  if (unitSystem === "imperial") {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={id}>Height (ft / in)</Label>
+        <div className="flex gap-2">
+          <Input
+            id={id}
+            type="number"
+            placeholder="5"
+            value={feetText}
+            onChange={(e) => updateImperial(e.target.value, inchesText)}
+          />
+          <Input
+            id={`${id}-inches`}
+            type="number"
+            placeholder="7"
+            value={inchesText}
+            onChange={(e) => updateImperial(feetText, e.target.value)}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Height (cm)</Label>
+      <Input
+        id={id}
+        type="number"
+        placeholder="170"
+        value={cmText}
+        onChange={(e) => {
+          setCmText(e.target.value);
+          emit(parsePositive(e.target.value));
+        }}
+      />
+    </div>
+  );
+};
+
+export const WeightInput = ({ id, label = "Weight", valueKg, unitSystem, onChange }: WeightInputProps) => {
+  const [text, setText] = useState("");
+  const synced = useRef<Synced | null>(null);
+
+  useEffect(() => {
+    if (synced.current?.value === valueKg && synced.current.unitSystem === unitSystem) return;
+    synced.current = { value: valueKg, unitSystem };
+    setText(valueKg === null ? "" : String(toDisplayWeight(valueKg, unitSystem)));
+  }, [valueKg, unitSystem]);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label} ({weightUnit(unitSystem)})</Label>
+      <Input
+        id={id}
+        type="number"
+        placeholder={unitSystem === "imperial" ? "143" : "65"}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const value = parsePositive(e.target.value);
+          const kg = value === null ? null : fromDisplayWeight(value, unitSystem);
+          synced.current = { value: kg, unitSystem };
+          onChange(kg);
+        }}
+      />
+    </div>
+  );
+};
+
+export const LengthInput = ({ id, label, valueCm, unitSystem, onChange }: LengthInputProps) => {
+  const [text, setText] = useState("");
+  const synced = useRef<Synced | null>(null);
+
+  useEffect(() => {
+    if (synced.current?.value === valueCm && synced.current.unitSystem === unitSystem) return;
+    synced.current = { value: valueCm, unitSystem };
+    setText(valueCm === null ? "" : String(toDisplayLength(valueCm, unitSystem)));
+  }, [valueCm, unitSystem]);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label} ({lengthUnit(unitSystem)})</Label>
+      <Input
+        id={id}
+        type="number"
+        step="0.1"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          const value = parsePositive(e.target.value);
+          const cm = value === null ? null : fromDisplayLength(value, unitSystem);
+          synced.current = { value: cm, unitSystem };
+          onChange(cm);
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import { BMR_METHOD_LABELS, type NutritionTargets } from "@/lib/nutrition";
+
+interface NutritionTargetsSummaryProps {
+  targets: NutritionTargets;
+}
+
+export const NutritionTargetsSummary = ({ targets }: NutritionTargetsSummaryProps) => {
+  const items = [
+    { label: "Calories", value: `${targets.calories}`, unit: "kcal" },
+    { label: "Protein", value: `${targets.proteinGrams}`, unit: "g" },
+    { label: "Carbs", value: `${targets.carbsGrams}`, unit: "g" },
+    { label: "Fat", value: `${targets.fatGrams}`, unit: "g" },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        {items.map((item) => (
+          <div key={item.label} className="p-2 rounded-lg bg-secondary/10 border border-secondary/20 text-center">
+            <p className="text-lg font-bold">
+              {item.value}
+              <span className="text-xs font-normal text-muted-foreground ml-0.5">{item.unit}</span>
+            </p>
+            <p className="text-xs text-muted-foreground">{item.label}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        BMR {targets.bmr} kcal · TDEE {targets.tdee} kcal ({BMR_METHOD_LABELS[targets.method]})
+      </p>
+    </div>
+  );
+};
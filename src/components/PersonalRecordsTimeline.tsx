@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Trophy } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { getExerciseName } from "@/lib/exerciseCatalog";
+import { RECORD_TYPE_LABELS, formatRecordValue, type PersonalRecord, type RecordType } from "@/lib/personalRecords";
+import type { UnitSystem } from "@/lib/units";
+import { parseDateKey } from "@/lib/dates";
+
+interface PersonalRecordsTimelineProps {
+  user: User | null;
+  unitSystem?: UnitSystem;
+  refreshTrigger?: number;
+}
+
+const TIMELINE_LIMIT = 50;
+
+export const PersonalRecordsTimeline = ({ user, unitSystem = "metric", refreshTrigger }: PersonalRecordsTimelineProps) => {
+  const [records, setRecords] = useState<PersonalRecord[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    supabase
+      .from("personal_records")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("achieved_on", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(TIMELINE_LIMIT)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading personal records:", error);
+        setRecords(data ?? []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, refreshTrigger]);
+
+  if (!user) return null;
+
+  return (
+    <Card className="p-6 shadow-card">
+      <h3 className="text-lg font-bold flex items-center gap-2 mb-4">
+        <Trophy className="w-5 h-5 text-yellow-500" />
+        Personal Records
+      </h3>
+
+      {records.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Log sets with weight, reps or time to start tracking your bests.
+        </p>
+      ) : (
+        <ol className="relative border-l border-muted ml-2 space-y-4 max-h-96 overflow-y-auto">
+          {records.map((record) => (
+            <li key={record.id} className="ml-4">
+              <span className={`absolute -left-1.5 w-3 h-3 rounded-full ${
+                record.previous_value !== null ? "bg-yellow-500" : "bg-muted-foreground/40"
+              }`} />
+              <p className="text-xs text-muted-foreground">
+                {format(parseDateKey(record.achieved_on), "PP")}
+              </p>
+              <p className="text-sm font-medium">
+                {getExerciseName(record.exercise_id)} · {RECORD_TYPE_LABELS[record.record_type as RecordType] ?? record.record_type}
+              </p>
+              <p className="text-sm">
+                {formatRecordValue(record, record.value, unitSystem)}
+                <span className="text-xs text-muted-foreground ml-2">
+                  {record.previous_value !== null
+                    ? `previous best ${formatRecordValue(record, record.previous_value, unitSystem)}`
+                    : "first result"}
+                </span>
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+};
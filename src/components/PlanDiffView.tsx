@@ -0,0 +1,102 @@
+import type { ReactNode } from "react";
+import { GitCompare } from "lucide-react";
+import { diffPlans, isEmptyDiff, type ListDiff, type PlanVersion, type ValueChange } from "@/lib/planVersions";
+import type { UnitSystem } from "@/lib/units";
+
+interface PlanDiffViewProps {
+  before: PlanVersion;
+  after: PlanVersion;
+  unitSystem?: UnitSystem;
+}
+
+const ValueRows = ({ changes }: { changes: ValueChange[] }) => (
+  <>
+    {changes.map((change) => (
+      <div key={change.label} className="grid grid-cols-3 gap-3 text-sm py-1 border-b last:border-b-0">
+        <span className="text-muted-foreground">{change.label}</span>
+        <span className="text-destructive">{change.before}</span>
+        <span className="text-primary">{change.after}</span>
+      </div>
+    ))}
+  </>
+);
+
+const ListColumns = ({ diff }: { diff: ListDiff }) => (
+  <div className="grid grid-cols-3 gap-3 text-sm">
+    <span />
+    <ul className="space-y-1">
+      {diff.removed.map((item) => (
+        <li key={item} className="text-destructive">− {item}</li>
+      ))}
+    </ul>
+    <ul className="space-y-1">
+      {diff.added.map((item) => (
+        <li key={item} className="text-primary">+ {item}</li>
+      ))}
+    </ul>
+  </div>
+);
+
+const hasChanges = (diff: ListDiff) => diff.added.length > 0 || diff.removed.length > 0;
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div className="space-y-2">
+    <h5 className="font-semibold text-sm">{title}</h5>
+    {children}
+  </div>
+);
+
+export const PlanDiffView = ({ before, after, unitSystem = "metric" }: PlanDiffViewProps) => {
+  const diff = diffPlans(before, after, unitSystem);
+
+  return (
+    <div className="p-4 rounded-xl border bg-muted/30 space-y-4">
+      <div className="flex items-center gap-2">
+        <GitCompare className="w-4 h-4 text-primary" />
+        <h4 className="font-semibold">Changes</h4>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-xs font-medium text-muted-foreground uppercase">
+        <span />
+        <span>Version {before.version}</span>
+        <span>Version {after.version}</span>
+      </div>
+
+      {isEmptyDiff(diff) && (
+        <p className="text-sm text-muted-foreground">These versions are identical.</p>
+      )}
+
+      {diff.summary.length > 0 && (
+        <Section title="Overview">
+          <ValueRows changes={diff.summary} />
+        </Section>
+      )}
+
+      {hasChanges(diff.exercises) && (
+        <Section title="Exercises">
+          <ListColumns diff={diff.exercises} />
+        </Section>
+      )}
+
+      {(diff.nutrition.length > 0 || hasChanges(diff.foods)) && (
+        <Section title="Diet">
+          <ValueRows changes={diff.nutrition} />
+          {hasChanges(diff.foods) && <ListColumns diff={diff.foods} />}
+        </Section>
+      )}
+
+      {diff.schedule.length > 0 && (
+        <Section title="Weekly Schedule">
+          {diff.schedule.map((day) => (
+            <div key={day.day} className="space-y-1">
+              <p className="text-sm font-medium">{day.day}</p>
+              {day.focus && <ValueRows changes={[day.focus]} />}
+              {hasChanges(day.exercises) && <ListColumns diff={day.exercises} />}
+              <ValueRows changes={day.prescriptions} />
+            </div>
+          ))}
+        </Section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { BarChart3 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { getExerciseName } from "@/lib/exerciseCatalog";
+import { toDisplayWeight, weightUnit, type UnitSystem } from "@/lib/units";
+import { getBrowserTimeZone, parseDateKey, todayKey } from "@/lib/dates";
+import {
+  CHART_RANGE_OPTIONS,
+  buildMoodDistribution,
+  buildVolumeTrend,
+  buildWeeklyTotals,
+  getRangeStart,
+  type ChartRange,
+  type WeeklyTotals,
+} from "@/lib/progressCharts";
+
+interface ProgressChartsProps {
+  user: User | null;
+  unitSystem?: UnitSystem;
+  timeZone?: string;
+  refreshTrigger?: number;
+}
+
+interface WeightPoint {
+  date: string;
+  weight: number;
+}
+
+const MOOD_LABELS: Record<string, string> = {
+  great: "💪 Great",
+  good: "😊 Good",
+  okay: "😐 Okay",
+  tired: "😓 Tired",
+  exhausted: "😴 Exhausted",
+};
+
+const formatDay = (date: string) => format(parseISO(date), "MMM d");
+
+const formatWeekLabel = (week: string) => `Week of ${format(parseISO(week), "MMM d, yyyy")}`;
+
+const chartConfig = {
+  workouts: { label: "Workouts", color: "hsl(var(--primary))" },
+  duration: { label: "Minutes", color: "hsl(var(--accent))" },
+  calories: { label: "Calories", color: "hsl(var(--secondary))" },
+  count: { label: "Workouts", color: "hsl(var(--primary))" },
+  volume: { label: "Volume", color: "hsl(var(--secondary))" },
+  weight: { label: "Weight", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <p className="text-sm text-muted-foreground py-12 text-center">{message}</p>
+);
+
+export const ProgressCharts = ({
+  user,
+  unitSystem = "metric",
+  timeZone = getBrowserTimeZone(),
+  refreshTrigger,
+}: ProgressChartsProps) => {
+  const [range, setRange] = useState<ChartRange>("3m");
+  const [weeks, setWeeks] = useState<WeeklyTotals[]>([]);
+  const [moodCounts, setMoodCounts] = useState<{ mood: string; workouts: number }[]>([]);
+  const [volumeExercises, setVolumeExercises] = useState<string[]>([]);
+  const [volumeDays, setVolumeDays] = useState<{ day: string; volume_kg: number }[]>([]);
+  const [weights, setWeights] = useState<{ measured_on: string; weight_kg: number }[]>([]);
+  const [volumeExercise, setVolumeExercise] = useState<string | null>(null);
+  const today = todayKey(timeZone);
+  const now = parseDateKey(today);
+  const rangeStart = getRangeStart(range, now);
+  const since = rangeStart ? format(rangeStart, "yyyy-MM-dd") : null;
+  const selectedExercise =
+    volumeExercise && volumeExercises.includes(volumeExercise) ? volumeExercise : volumeExercises[0];
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    const sinceArgs = since ? { p_since: since } : {};
+
+    const load = async () => {
+      let weightsQuery = supabase
+        .from("body_measurements")
+        .select("measured_on, weight_kg")
+        .eq("user_id", user.id)
+        .not("weight_kg", "is", null);
+      if (since) weightsQuery = weightsQuery.gte("measured_on", since);
+
+      const [weeksResult, moodsResult, exercisesResult, weightsResult] = await Promise.all([
+        supabase.rpc("get_weekly_workout_stats", sinceArgs),
+        supabase.rpc("get_mood_counts", sinceArgs),
+        supabase.rpc("get_volume_exercises", sinceArgs),
+        weightsQuery.order("measured_on", { ascending: true }),
+      ]);
+      if (cancelled) return;
+
+      if (weeksResult.error) console.error("Error loading chart weeks:", weeksResult.error);
+      if (moodsResult.error) console.error("Error loading chart moods:", moodsResult.error);
+      if (exercisesResult.error) console.error("Error loading chart exercises:", exercisesResult.error);
+      if (weightsResult.error) console.error("Error loading chart weights:", weightsResult.error);
+
+      setWeeks(
+        (weeksResult.data ?? []).map(({ week_start, workouts, duration, calories }) => ({
+          week: week_start,
+          workouts,
+          duration,
+          calories,
+        }))
+      );
+      setMoodCounts(moodsResult.data ?? []);
+      setVolumeExercises((exercisesResult.data ?? []).map(({ exercise_id }) => exercise_id));
+      setWeights(
+        (weightsResult.data ?? []).flatMap(({ measured_on, weight_kg }) =>
+          weight_kg === null ? [] : [{ measured_on, weight_kg }]
+        )
+      );
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, since, refreshTrigger]);
+
+  useEffect(() => {
+    if (!user || !selectedExercise) {
+      setVolumeDays([]);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .rpc("get_daily_exercise_volume", { p_exercise_id: selectedExercise, ...(since ? { p_since: since } : {}) })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading chart volume:", error);
+        setVolumeDays(data ?? []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, selectedExercise, since, refreshTrigger]);
+
+  if (!user) return null;
+
+  const weekly = buildWeeklyTotals(weeks, rangeStart, now);
+  const moods = buildMoodDistribution(moodCounts);
+  const volume = buildVolumeTrend(volumeDays, unitSystem);
+  const weightTrend: WeightPoint[] = weights.map(({ measured_on, weight_kg }) => ({
+    date: measured_on,
+    weight: toDisplayWeight(weight_kg, unitSystem),
+  }));
+  const unit = weightUnit(unitSystem);
+
+  const weeklyChart = (dataKey: "workouts" | "duration" | "calories") =>
+    weeks.length === 0 ? (
+      <EmptyChart message="No workouts logged in this range." />
+    ) : (
+      <ChartContainer config={chartConfig} className="h-64 w-full">
+        <BarChart data={weekly}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="week" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeekLabel} />} />
+          <Bar dataKey={dataKey} fill={`var(--color-${dataKey})`} radius={4} />
+        </BarChart>
+      </ChartContainer>
+    );
+
+  return (
+    <Card className="p-6 shadow-card">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-primary" />
+          Trends
+        </h3>
+        <Select value={range} onValueChange={(value) => setRange(value as ChartRange)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CHART_RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Tabs defaultValue="frequency">
+        <TabsList className="flex flex-wrap h-auto">
+          <TabsTrigger value="frequency">Frequency</TabsTrigger>
+          <TabsTrigger value="duration">Duration</TabsTrigger>
+          <TabsTrigger value="calories">Calories</TabsTrigger>
+          <TabsTrigger value="mood">Mood</TabsTrigger>
+          <TabsTrigger value="volume">Volume</TabsTrigger>
+          <TabsTrigger value="weight">Bodyweight</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="frequency">{weeklyChart("workouts")}</TabsContent>
+        <TabsContent value="duration">{weeklyChart("duration")}</TabsContent>
+        <TabsContent value="calories">{weeklyChart("calories")}</TabsContent>
+
+        <TabsContent value="mood">
+          {moodCounts.length === 0 ? (
+            <EmptyChart message="No workouts logged in this range." />
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={moods}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="mood" tickFormatter={(mood) => MOOD_LABELS[mood] ?? mood} tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(mood) => MOOD_LABELS[mood] ?? mood} />} />
+                <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </TabsContent>
+
+        <TabsContent value="volume" className="space-y-3">
+          {!selectedExercise ? (
+            <EmptyChart message="Log sets with reps and weight to see volume trends." />
+          ) : (
+            <>
+              <Select value={selectedExercise} onValueChange={setVolumeExercise}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {volumeExercises.map((exercise) => (
+                    <SelectItem key={exercise} value={exercise}>
+                      {getExerciseName(exercise)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ChartContainer config={chartConfig} className="h-64 w-full">
+                <LineChart data={volume}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                  <YAxis unit={` ${unit}`} tickLine={false} axisLine={false} width={70} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                  <Line dataKey="volume" stroke="var(--color-volume)" strokeWidth={2} dot />
+                </LineChart>
+              </ChartContainer>
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="weight">
+          {weightTrend.length === 0 ? (
+            <EmptyChart message="No weigh-ins in this range." />
+          ) : (
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <LineChart data={weightTrend}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} />
+                <YAxis domain={["auto", "auto"]} unit={` ${unit}`} tickLine={false} axisLine={false} width={60} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <Line dataKey="weight" stroke="var(--color-weight)" strokeWidth={2} dot />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </TabsContent>
+      </Tabs>
+    </Card>
+  );
+};
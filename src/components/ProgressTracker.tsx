@@ -1,11 +1,19 @@
 import { useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, Calendar, Flame, Clock, Target, ChevronLeft, ChevronRight, Trash2 } from "lucide-react";
+import { TrendingUp, Calendar, Flame, Clock, Target, ChevronLeft, ChevronRight, Trash2, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import type { User } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
-import { format, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, subWeeks, addWeeks } from "date-fns";
+import { getExerciseName } from "@/lib/exerciseCatalog";
+import type { UnitSystem } from "@/lib/units";
+import { addDaysToKey, daysBetweenKeys, getBrowserTimeZone, parseDateKey, startOfWeekKey, todayKey } from "@/lib/dates";
+import { EMPTY_WORKOUT_STATS, toWorkoutStats, type WorkoutStats } from "@/lib/workoutStats";
+import { EMPTY_STREAK, type StreakStatus } from "@/lib/streaks";
+import type { Tables } from "@/integrations/supabase/types";
+import { ActivityHeatmap } from "./ActivityHeatmap";
+import { ExerciseSummaries } from "./ExerciseSummaries";
+import { format } from "date-fns";
 
 interface WorkoutLog {
   id: string;
@@ -21,6 +29,13 @@ interface WorkoutLog {
 interface ProgressTrackerProps {
   user: User | null;
   refreshTrigger?: number;
+  unitSystem?: UnitSystem;
+  // IANA zone that decides which calendar day is "today"
+  timeZone?: string;
+  // Current streak, worked out with the active plan's rest days
+  streak?: StreakStatus;
+  // Called after a workout is deleted, so the page can refresh what depends on it
+  onLogDeleted?: () => void;
 }
 
 const MOOD_EMOJI: Record<string, string> = {
@@ -31,95 +46,115 @@ const MOOD_EMOJI: Record<string, string> = {
   exhausted: "😴",
 };
 
-export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps) => {
+const PAGE_SIZE = 10;
+
+const toWorkoutLog = (log: Tables<"workout_logs">): WorkoutLog => ({
+  ...log,
+  exercises_completed: Array.isArray(log.exercises_completed)
+    ? log.exercises_completed as string[]
+    : []
+});
+
+export const ProgressTracker = ({
+  user,
+  refreshTrigger,
+  unitSystem = "metric",
+  timeZone = getBrowserTimeZone(),
+  streak = EMPTY_STREAK,
+  onLogDeleted,
+}: ProgressTrackerProps) => {
   const { toast } = useToast();
-  const [logs, setLogs] = useState<WorkoutLog[]>([]);
+  const [recentLogs, setRecentLogs] = useState<WorkoutLog[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [weekLogs, setWeekLogs] = useState<WorkoutLog[]>([]);
   const [loading, setLoading] = useState(true);
-  const [currentWeek, setCurrentWeek] = useState(new Date());
-  const [stats, setStats] = useState({
-    totalWorkouts: 0,
-    totalDuration: 0,
-    totalCalories: 0,
-    currentStreak: 0,
-    thisWeekWorkouts: 0,
-  });
-
-  const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 });
-  const weekEnd = endOfWeek(currentWeek, { weekStartsOn: 1 });
-  const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd });
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped after a delete so every section reloads
+  const [reloadCount, setReloadCount] = useState(0);
+  // Weeks back (negative) or forward from the current one
+  const [weekOffset, setWeekOffset] = useState(0);
+  // Day picked on the heatmap; narrows Recent Workouts to that day
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [stats, setStats] = useState<WorkoutStats>(EMPTY_WORKOUT_STATS);
+
+  const today = todayKey(timeZone);
+  const thisWeekStart = startOfWeekKey(today);
+  const weekStart = addDaysToKey(thisWeekStart, weekOffset * 7);
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDaysToKey(weekStart, i));
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    supabase.rpc("get_workout_totals", { p_today: today }).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error("Fetch stats error:", error);
+      setStats(toWorkoutStats(data?.[0]));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, today, refreshTrigger, reloadCount]);
 
   useEffect(() => {
     if (user) {
-      fetchLogs();
+      fetchRecentLogs(0);
     }
-  }, [user, refreshTrigger]);
+  }, [user, selectedDate, refreshTrigger, reloadCount]);
 
-  const fetchLogs = async () => {
+  useEffect(() => {
     if (!user) return;
 
-    setLoading(true);
+    let cancelled = false;
+    supabase
+      .from("workout_logs")
+      .select("*")
+      .eq("user_id", user.id)
+      .gte("workout_date", weekStart)
+      .lte("workout_date", addDaysToKey(weekStart, 6))
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Fetch week logs error:", error);
+        setWeekLogs((data || []).map(toWorkoutLog));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, weekStart, refreshTrigger, reloadCount]);
+
+  // Newest first, a page at a time; only the selected day's logs when one is picked
+  const fetchRecentLogs = async (offset: number) => {
+    if (!user) return;
+
+    if (offset === 0) setLoading(true);
+    else setLoadingMore(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("workout_logs")
         .select("*")
-        .eq("user_id", user.id)
-        .order("workout_date", { ascending: false });
+        .eq("user_id", user.id);
+      if (selectedDate) query = query.eq("workout_date", selectedDate);
 
-      if (error) throw error;
+      const { data, error } = await query
+        .order("workout_date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
 
-      const typedLogs: WorkoutLog[] = (data || []).map(log => ({
-        ...log,
-        exercises_completed: Array.isArray(log.exercises_completed) 
-          ? log.exercises_completed as string[]
-          : []
-      }));
+      if (error) throw error;
 
-      setLogs(typedLogs);
-      calculateStats(typedLogs);
+      const page = (data || []).map(toWorkoutLog);
+      setRecentLogs(prev => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
     } catch (error) {
       console.error("Fetch logs error:", error);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
-  const calculateStats = (workoutLogs: WorkoutLog[]) => {
-    const now = new Date();
-    const weekStartDate = startOfWeek(now, { weekStartsOn: 1 });
-
-    const thisWeekLogs = workoutLogs.filter(log => 
-      new Date(log.workout_date) >= weekStartDate
-    );
-
-    // Calculate streak
-    let streak = 0;
-    const sortedDates = [...new Set(workoutLogs.map(l => l.workout_date))].sort().reverse();
-    const today = format(now, 'yyyy-MM-dd');
-    const yesterday = format(new Date(now.getTime() - 86400000), 'yyyy-MM-dd');
-
-    if (sortedDates[0] === today || sortedDates[0] === yesterday) {
-      streak = 1;
-      for (let i = 1; i < sortedDates.length; i++) {
-        const current = new Date(sortedDates[i - 1]);
-        const prev = new Date(sortedDates[i]);
-        const diffDays = Math.floor((current.getTime() - prev.getTime()) / 86400000);
-        if (diffDays === 1) {
-          streak++;
-        } else {
-          break;
-        }
-      }
-    }
-
-    setStats({
-      totalWorkouts: workoutLogs.length,
-      totalDuration: workoutLogs.reduce((sum, l) => sum + (l.duration_minutes || 0), 0),
-      totalCalories: workoutLogs.reduce((sum, l) => sum + (l.calories_burned || 0), 0),
-      currentStreak: streak,
-      thisWeekWorkouts: thisWeekLogs.length,
-    });
-  };
-
   const deleteLog = async (logId: string) => {
     try {
       const { error } = await supabase
@@ -130,7 +165,8 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
       if (error) throw error;
 
       toast({ title: "Workout log deleted" });
-      fetchLogs();
+      setReloadCount(prev => prev + 1);
+      onLogDeleted?.();
     } catch (error) {
       toast({
         title: "Error",
@@ -140,8 +176,13 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
     }
   };
 
-  const getWorkoutsForDay = (date: Date) => {
-    return logs.filter(log => isSameDay(new Date(log.workout_date), date));
+  const getWorkoutsForDay = (date: string) => {
+    return weekLogs.filter(log => log.workout_date === date);
+  };
+
+  const selectDay = (date: string) => {
+    setSelectedDate(date);
+    setWeekOffset(daysBetweenKeys(thisWeekStart, startOfWeekKey(date)) / 7);
   };
 
   if (!user) {
@@ -176,8 +217,11 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
         </Card>
         <Card className="p-4 text-center">
           <TrendingUp className="w-6 h-6 mx-auto mb-2 text-green-500" />
-          <p className="text-2xl font-bold">{stats.currentStreak}</p>
+          <p className="text-2xl font-bold">{streak.current}</p>
           <p className="text-xs text-muted-foreground">Day Streak 🔥</p>
+          <p className="text-xs text-muted-foreground" title="Earn one every 7 days of streak; spent automatically on a missed day">
+            {streak.freezes} freeze{streak.freezes === 1 ? "" : "s"} ❄️
+          </p>
         </Card>
       </div>
 
@@ -192,17 +236,17 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
             <Button
               variant="outline"
               size="icon"
-              onClick={() => setCurrentWeek(subWeeks(currentWeek, 1))}
+              onClick={() => setWeekOffset(weekOffset - 1)}
             >
               <ChevronLeft className="w-4 h-4" />
             </Button>
             <span className="text-sm font-medium min-w-[140px] text-center">
-              {format(weekStart, "MMM d")} - {format(weekEnd, "MMM d, yyyy")}
+              {format(parseDateKey(weekStart), "MMM d")} - {format(parseDateKey(weekDays[6]), "MMM d, yyyy")}
             </span>
             <Button
               variant="outline"
               size="icon"
-              onClick={() => setCurrentWeek(addWeeks(currentWeek, 1))}
+              onClick={() => setWeekOffset(weekOffset + 1)}
             >
               <ChevronRight className="w-4 h-4" />
             </Button>
@@ -212,12 +256,13 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
         <div className="grid grid-cols-7 gap-2">
           {weekDays.map((day) => {
             const dayWorkouts = getWorkoutsForDay(day);
-            const isToday = isSameDay(day, new Date());
+            const isToday = day === today;
             const hasWorkout = dayWorkouts.length > 0;
+            const isFrozen = streak.frozenDays.includes(day);
 
             return (
               <div
-                key={day.toISOString()}
+                key={day}
                 className={`p-3 rounded-xl text-center transition-colors ${
                   isToday 
                     ? "bg-primary/10 border-2 border-primary" 
@@ -226,34 +271,65 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
                     : "bg-muted/30 border border-transparent"
                 }`}
               >
-                <p className="text-xs text-muted-foreground">{format(day, "EEE")}</p>
+                <p className="text-xs text-muted-foreground">{format(parseDateKey(day), "EEE")}</p>
                 <p className={`text-lg font-bold ${isToday ? "text-primary" : ""}`}>
-                  {format(day, "d")}
+                  {format(parseDateKey(day), "d")}
                 </p>
                 {hasWorkout && (
                   <div className="mt-1">
                     <span className="text-lg">{MOOD_EMOJI[dayWorkouts[0].mood || "good"]}</span>
                   </div>
                 )}
+                {isFrozen && (
+                  <div className="mt-1" title="Streak freeze used">
+                    <span className="text-lg">❄️</span>
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
       </Card>
 
+      <ActivityHeatmap
+        user={user}
+        unitSystem={unitSystem}
+        timeZone={timeZone}
+        refreshTrigger={(refreshTrigger ?? 0) + reloadCount}
+        selectedDate={selectedDate}
+        onSelectDay={selectDay}
+      />
+
+      <ExerciseSummaries
+        user={user}
+        unitSystem={unitSystem}
+        refreshTrigger={(refreshTrigger ?? 0) + reloadCount}
+      />
+
       {/* Recent Workouts */}
       <Card className="p-6 shadow-card">
-        <h3 className="text-lg font-bold mb-4">Recent Workouts</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold">
+            {selectedDate ? `Workouts on ${format(parseDateKey(selectedDate), "EEEE, MMM d")}` : "Recent Workouts"}
+          </h3>
+          {selectedDate && (
+            <Button variant="ghost" size="sm" onClick={() => setSelectedDate(null)} className="gap-1">
+              <X className="w-4 h-4" /> Show all
+            </Button>
+          )}
+        </div>
         
         {loading ? (
           <div className="text-center py-8 text-muted-foreground">Loading...</div>
-        ) : logs.length === 0 ? (
+        ) : recentLogs.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
-            <p>No workouts logged yet. Start tracking your progress!</p>
+            <p>
+              {selectedDate ? "No workouts logged on this day." : "No workouts logged yet. Start tracking your progress!"}
+            </p>
           </div>
         ) : (
           <div className="space-y-3">
-            {logs.slice(0, 10).map((log) => (
+            {recentLogs.map((log) => (
               <div
                 key={log.id}
                 className="p-4 rounded-xl bg-muted/30 border hover:bg-muted/50 transition-colors"
@@ -263,7 +339,7 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
                     <div className="flex items-center gap-2 mb-2">
                       <span className="text-lg">{MOOD_EMOJI[log.mood || "good"]}</span>
                       <span className="font-semibold">
-                        {format(new Date(log.workout_date), "EEEE, MMM d")}
+                        {format(parseDateKey(log.workout_date), "EEEE, MMM d")}
                       </span>
                       {log.duration_minutes && (
                         <span className="text-sm text-muted-foreground">
@@ -282,7 +358,7 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
                           key={i}
                           className="text-xs px-2 py-1 rounded-md bg-primary/10 text-primary"
                         >
-                          {exercise}
+                          {getExerciseName(exercise)}
                         </span>
                       ))}
                       {log.exercises_completed.length > 5 && (
@@ -308,6 +384,16 @@ export const ProgressTracker = ({ user, refreshTrigger }: ProgressTrackerProps)
                 </div>
               </div>
             ))}
+            {hasMore && (
+              <Button
+                variant="outline"
+                onClick={() => fetchRecentLogs(recentLogs.length)}
+                disabled={loadingMore}
+                className="w-full"
+              >
+                {loadingMore ? "Loading..." : "Load More"}
+              </Button>
+            )}
           </div>
         )}
       </Card>
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, Check, ChevronDown, ChevronUp, GripVertical, Pencil } from "lucide-react";
+import {
+  MUSCLE_GROUP_LABELS,
+  defaultPrescription,
+  getAlternatives,
+  getExercise,
+  isContraindicated,
+  type Contraindication,
+  type MuscleGroup,
+} from "@/lib/exerciseCatalog";
+import { formatProgramExercise, getDayVolume, type ProgramWeek } from "@/lib/periodization";
+import { editPrescription, swapDays, swapExercise, type PlanEditor } from "@/lib/planEditing";
+import type { WeeklyPlan } from "@/lib/planEngine";
+
+interface WeeklyPlanViewProps {
+  weeklyPlan: WeeklyPlan[];
+  weeks?: ProgramWeek[];
+  // Equipment the plan was built for; swaps are limited to it
+  equipment?: string[];
+  healthConditions?: Contraindication[];
+  // Enables edit mode when provided
+  onEdit?: (editPlan: PlanEditor) => void;
+}
+
+export const WeeklyPlanView = ({
+  weeklyPlan,
+  weeks = [],
+  equipment = [],
+  healthConditions = [],
+  onEdit,
+}: WeeklyPlanViewProps) => {
+  const [selectedWeek, setSelectedWeek] = useState(1);
+  const [editing, setEditing] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const week = weeks.find(w => w.week === selectedWeek) ?? weeks[0];
+
+  const applyEdit = (editPlan: PlanEditor) => {
+    if (onEdit) onEdit(editPlan);
+  };
+
+  const moveDay = (from: number, to: number) => applyEdit(plan => swapDays(plan, from, to));
+
+  const commitNumber = (dayIndex: number, exerciseId: string, field: "sets" | "reps", text: string, current: number | null) => {
+    const value = parseInt(text);
+    if (!value || value <= 0 || value === current) return;
+    applyEdit(plan => editPrescription(plan, dayIndex, exerciseId, { [field]: value }));
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <Calendar className="w-5 h-5 text-primary" />
+          <h3 className="text-xl font-bold">Weekly Plan</h3>
+          {week && weeks.length > 1 && (
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+              week.isDeload ? "bg-secondary/20 text-secondary-foreground" : "bg-primary/20 text-primary"
+            }`}>
+              {week.phase}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-2">
+          {weeks.length > 1 && !editing && (
+            <Select value={String(week.week)} onValueChange={(value) => setSelectedWeek(parseInt(value))}>
+              <SelectTrigger className="w-full md:w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {weeks.map((w) => (
+                  <SelectItem key={w.week} value={String(w.week)}>
+                    Week {w.week} · {w.phase}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onEdit && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(!editing)} className="gap-2">
+              {editing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+              {editing ? "Done" : "Edit"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <p className="text-xs text-muted-foreground mb-3">
+          Drag a day onto another, or use the arrows, to swap them. Edits to sets and reps apply to the base week.
+        </p>
+      )}
+
+      <div className="grid gap-3">
+        {weeklyPlan.map((day, index) => {
+          const volume = getDayVolume(day, editing ? undefined : week);
+
+          return (
+            <div
+              key={index}
+              draggable={editing}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => editing && e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) moveDay(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`p-4 rounded-xl border ${
+                day.focus === "Rest Day"
+                  ? "bg-muted/50 border-muted"
+                  : day.focus === "Active Recovery"
+                  ? "bg-secondary/10 border-secondary/30"
+                  : "bg-primary/5 border-primary/20"
+              } ${editing ? "cursor-move" : ""} ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div className="flex items-center gap-3">
+                  {editing && <GripVertical className="w-4 h-4 text-muted-foreground" />}
+                  <span className="font-bold text-lg min-w-[100px]">{day.day}</span>
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    day.focus === "Rest Day"
+                      ? "bg-muted text-muted-foreground"
+                      : day.focus === "Active Recovery"
+                      ? "bg-secondary/20 text-secondary-foreground"
+                      : "bg-primary/20 text-primary"
+                  }`}>
+                    {day.focus}
+                  </span>
+                  <span className="text-sm text-muted-foreground">({day.duration})</span>
+                </div>
+                {editing && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveDay(index, index - 1)}
+                      disabled={index === 0}
+                      aria-label={`Swap ${day.day} with the day before`}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveDay(index, index + 1)}
+                      disabled={index === weeklyPlan.length - 1}
+                      aria-label={`Swap ${day.day} with the day after`}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {editing ? (
+                <div className="mt-3 space-y-2">
+                  {day.exercises.map((id) => {
+                    const exercise = getExercise(id);
+                    if (!exercise) {
+                      return <p key={id} className="text-sm">{id}</p>;
+                    }
+                    const prescription = { ...defaultPrescription(exercise), ...day.overrides?.[id] };
+                    const alternatives = getAlternatives(exercise, equipment).filter(alternative =>
+                      !day.exercises.includes(alternative.id) && !isContraindicated(alternative, healthConditions)
+                    );
+
+                    return (
+                      <div key={id} className="flex flex-col md:flex-row md:items-center gap-2">
+                        <Select
+                          value={id}
+                          onValueChange={(value) => applyEdit(plan => swapExercise(plan, index, id, value))}
+                        >
+                          <SelectTrigger className="w-full md:w-[240px] bg-background">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={id}>{exercise.name}</SelectItem>
+                            {alternatives.map((alternative) => (
+                              <SelectItem key={alternative.id} value={alternative.id}>
+                                {alternative.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <div className="flex items-center gap-2 text-sm">
+                          <Input
+                            key={`${id}-sets-${prescription.sets}`}
+                            type="number"
+                            min={1}
+                            defaultValue={prescription.sets}
+                            onBlur={(e) => commitNumber(index, id, "sets", e.target.value, prescription.sets)}
+                            className="w-16 h-9 bg-background"
+                            aria-label={`${exercise.name} sets`}
+                          />
+                          <span className="text-muted-foreground">sets</span>
+                          {prescription.reps !== null && (
+                            <>
+                              <Input
+                                key={`${id}-reps-${prescription.reps}`}
+                                type="number"
+                                min={1}
+                                defaultValue={prescription.reps}
+                                onBlur={(e) => commitNumber(index, id, "reps", e.target.value, prescription.reps)}
+                                className="w-16 h-9 bg-background"
+                                aria-label={`${exercise.name} reps`}
+                              />
+                              <span className="text-muted-foreground">reps</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {day.exercises.map((exercise, exIndex) => (
+                    <span
+                      key={exIndex}
+                      className="text-xs px-2 py-1 rounded-md bg-background border"
+                    >
+                      {formatProgramExercise(exercise, week, day.overrides?.[exercise])}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {Object.keys(volume).length > 0 && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Volume: {Object.entries(volume)
+                    .map(([muscle, sets]) => `${MUSCLE_GROUP_LABELS[muscle as MuscleGroup]} ${sets} sets`)
+                    .join(" · ")}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
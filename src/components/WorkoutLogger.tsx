@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,15 +6,58 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Plus, Dumbbell, Clock, Flame, Smile } from "lucide-react";
+import { Plus, Dumbbell, Clock, Flame, Smile, X, Play } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import type { User } from "@supabase/supabase-js";
+import { getExerciseName } from "@/lib/exerciseCatalog";
+import { formatWeight, weightUnit, type UnitSystem } from "@/lib/units";
+import { getBrowserTimeZone, todayKey } from "@/lib/dates";
+import { estimateWorkoutCalories } from "@/lib/energyExpenditure";
+import {
+  RPE_MAX,
+  RPE_MIN,
+  SET_FIELDS,
+  SET_FIELD_LABELS,
+  emptySetDraft,
+  formatSet,
+  getSetKind,
+  groupLatestSessionSets,
+  prefillSets,
+  toWorkoutSetRows,
+  validateSetDraft,
+  type SetDraft,
+  type WorkoutSet,
+} from "@/lib/workoutSets";
+import {
+  getDurationMinutes,
+  loadStoredSession,
+  saveStoredSession,
+  startSession,
+  type WorkoutSession,
+} from "@/lib/workoutSession";
+import { LiveWorkoutSession } from "./LiveWorkoutSession";
+import {
+  describeRecord,
+  detectPersonalRecords,
+  toPersonalRecordRows,
+  type NewRecord,
+  type OneRepMaxFormula,
+} from "@/lib/personalRecords";
 
 interface WorkoutLoggerProps {
   user: User | null;
+  // Exercise catalog ids
   exercises?: string[];
   planId?: string;
+  // Weekly plan day the exercises come from
+  planDay?: string;
+  unitSystem?: UnitSystem;
+  // Body weight for calorie estimates; without it calories are entered by hand
+  weightKg?: number | null;
+  // IANA zone used for the default workout date
+  timeZone?: string;
+  oneRepMaxFormula?: OneRepMaxFormula;
   onLogComplete?: () => void;
 }
 
@@ -27,35 +70,167 @@ const MOOD_OPTIONS = [
 ];
 
 const DEFAULT_EXERCISES = [
-  "Push-Ups",
-  "Squats",
-  "Planks",
-  "Lunges",
-  "Burpees",
-  "Mountain Climbers",
-  "Jumping Jacks",
-  "Crunches",
+  "push_ups",
+  "bodyweight_squats",
+  "plank",
+  "lunges",
+  "burpees",
+  "mountain_climbers",
+  "jumping_jacks",
+  "crunches",
 ];
 
-export const WorkoutLogger = ({ user, exercises = DEFAULT_EXERCISES, planId, onLogComplete }: WorkoutLoggerProps) => {
+export const WorkoutLogger = ({
+  user,
+  exercises = DEFAULT_EXERCISES,
+  planId,
+  planDay,
+  unitSystem = "metric",
+  weightKg = null,
+  timeZone = getBrowserTimeZone(),
+  oneRepMaxFormula = "epley",
+  onLogComplete,
+}: WorkoutLoggerProps) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
-    workoutDate: new Date().toISOString().split('T')[0],
-    exercisesCompleted: [] as string[],
+    workoutDate: todayKey(timeZone),
+    // Sets per selected exercise, in the order they were picked
+    sets: {} as Record<string, SetDraft[]>,
     durationMinutes: "",
     caloriesBurned: "",
+    // Once edited, calories stop following the estimate
+    caloriesEdited: false,
     mood: "good",
     notes: "",
   });
+  const [previousSets, setPreviousSets] = useState<Record<string, WorkoutSet[]>>({});
+  const [logCount, setLogCount] = useState(0);
+  const [session, setSession] = useState<WorkoutSession | null>(null);
 
-  const toggleExercise = (exercise: string) => {
+  // The saved time zone arrives after the first render
+  useEffect(() => {
+    setFormData(prev => ({ ...prev, workoutDate: todayKey(timeZone) }));
+  }, [timeZone]);
+
+  // Pick up a session left running or paused before a reload
+  useEffect(() => {
+    setSession(user ? loadStoredSession(user.id) : null);
+  }, [user]);
+
+  const changeSession = (next: WorkoutSession | null) => {
+    setSession(next);
+    if (user) saveStoredSession(user.id, next);
+  };
+
+  const startWorkout = () => {
+    const sets = Object.fromEntries(
+      exercises.map(exercise => [exercise, prefillSets(exercise, previousSets[exercise] ?? [], unitSystem)])
+    );
+    changeSession(startSession(exercises, sets, Date.now()));
+  };
+
+  // Hand the session's sets and time over to the form for review before logging
+  const finishWorkout = () => {
+    if (!session) return;
     setFormData(prev => ({
       ...prev,
-      exercisesCompleted: prev.exercisesCompleted.includes(exercise)
-        ? prev.exercisesCompleted.filter(e => e !== exercise)
-        : [...prev.exercisesCompleted, exercise]
+      sets: Object.fromEntries(
+        Object.entries(session.sets).filter(([, sets]) => sets.some(set => set.completed))
+      ),
+      durationMinutes: String(getDurationMinutes(session, Date.now())),
     }));
+    changeSession(null);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    supabase
+      .from("workout_sets")
+      .select("*")
+      .eq("user_id", user.id)
+      .in("exercise_id", exercises)
+      .order("created_at", { ascending: false })
+      .limit(500)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading previous sets:", error);
+        setPreviousSets(groupLatestSessionSets(data ?? []));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, exercises, logCount]);
+
+  const toggleExercise = (exercise: string) => {
+    setFormData(prev => {
+      const { [exercise]: removed, ...rest } = prev.sets;
+      return {
+        ...prev,
+        sets: removed ? rest : { ...prev.sets, [exercise]: prefillSets(exercise, previousSets[exercise] ?? [], unitSystem) },
+      };
+    });
+  };
+
+  const updateSets = (exercise: string, update: (sets: SetDraft[]) => SetDraft[]) => {
+    setFormData(prev => ({ ...prev, sets: { ...prev.sets, [exercise]: update(prev.sets[exercise] ?? []) } }));
+  };
+
+  const updateSet = (exercise: string, index: number, changes: Partial<SetDraft>) => {
+    updateSets(exercise, sets => sets.map((set, i) => (i === index ? { ...set, ...changes } : set)));
+  };
+
+  // New sets repeat the last one, which is usually what comes next
+  const addSet = (exercise: string) => {
+    updateSets(exercise, sets => [
+      ...sets,
+      sets.length > 0 ? { ...sets[sets.length - 1], completed: false } : emptySetDraft(exercise),
+    ]);
+  };
+
+  const removeSet = (exercise: string, index: number) => {
+    updateSets(exercise, sets => sets.filter((_, i) => i !== index));
+  };
+
+  const completedExercises = Object.keys(formData.sets).filter(exercise =>
+    formData.sets[exercise].some(set => set.completed)
+  );
+
+  const estimatedCalories = weightKg && completedExercises.length > 0
+    ? estimateWorkoutCalories(formData.sets, weightKg, formData.durationMinutes ? parseFloat(formData.durationMinutes) : null)
+    : null;
+  const useEstimate = !formData.caloriesEdited && estimatedCalories !== null;
+  const calories = useEstimate ? String(estimatedCalories) : formData.caloriesBurned;
+
+  // PRs are a bonus on top of the log, so failing to save them doesn't fail the workout
+  const savePersonalRecords = async (workoutLogId: string, sets: WorkoutSet[]): Promise<NewRecord[]> => {
+    if (!user) return [];
+
+    try {
+      const { data: history, error } = await supabase
+        .from("personal_records")
+        .select("*")
+        .eq("user_id", user.id)
+        .in("exercise_id", [...new Set(sets.map(set => set.exercise_id))]);
+
+      if (error) throw error;
+
+      const records = detectPersonalRecords(sets, history, oneRepMaxFormula);
+      if (records.length === 0) return [];
+
+      const { error: insertError } = await supabase
+        .from("personal_records")
+        .insert(toPersonalRecordRows(user.id, workoutLogId, formData.workoutDate, records));
+
+      if (insertError) throw insertError;
+      return records;
+    } catch (error) {
+      console.error("Personal records error:", error);
+      return [];
+    }
   };
 
   const handleSubmit = async () => {
@@ -68,10 +243,20 @@ export const WorkoutLogger = ({ user, exercises = DEFAULT_EXERCISES, planId, onL
       return;
     }
 
-    if (formData.exercisesCompleted.length === 0) {
+    if (completedExercises.length === 0) {
       toast({
         title: "Select Exercises",
-        description: "Please select at least one exercise you completed",
+        description: "Please tick off at least one set you completed",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalid = Object.values(formData.sets).flat().map(validateSetDraft).find(Boolean);
+    if (invalid) {
+      toast({
+        title: "Invalid Set",
+        description: invalid,
         variant: "destructive",
       });
       return;
@@ -79,34 +264,54 @@ export const WorkoutLogger = ({ user, exercises = DEFAULT_EXERCISES, planId, onL
 
     setLoading(true);
     try {
-      const { error } = await supabase.from("workout_logs").insert([{
+      const { data: log, error } = await supabase.from("workout_logs").insert([{
         user_id: user.id,
         fitness_plan_id: planId || null,
+        plan_day: planDay || null,
         workout_date: formData.workoutDate,
-        exercises_completed: formData.exercisesCompleted,
+        exercises_completed: completedExercises,
         duration_minutes: formData.durationMinutes ? parseInt(formData.durationMinutes) : null,
-        calories_burned: formData.caloriesBurned ? parseInt(formData.caloriesBurned) : null,
+        calories_burned: calories ? parseInt(calories) : null,
+        calories_method: calories ? (useEstimate ? "met" : "manual") : null,
         mood: formData.mood,
         notes: formData.notes || null,
-      }]);
+      }]).select("id").single();
 
       if (error) throw error;
 
+      const { data: savedSets, error: setsError } = await supabase
+        .from("workout_sets")
+        .insert(toWorkoutSetRows(user.id, log.id, formData.sets, unitSystem))
+        .select();
+
+      if (setsError) {
+        // Don't leave a workout behind without its sets
+        await supabase.from("workout_logs").delete().eq("id", log.id);
+        throw setsError;
+      }
+
+      const records = await savePersonalRecords(log.id, savedSets);
+      const improvements = records.filter(record => record.previousValue !== null);
+
       toast({
-        title: "Workout Logged! 🎉",
-        description: "Great job on completing your workout!",
+        title: improvements.length > 0 ? "New Personal Record! 🏆" : "Workout Logged! 🎉",
+        description: improvements.length > 0
+          ? improvements.map(record => describeRecord(record, unitSystem)).join(" · ")
+          : "Great job on completing your workout!",
       });
 
       // Reset form
       setFormData({
-        workoutDate: new Date().toISOString().split('T')[0],
-        exercisesCompleted: [],
+        workoutDate: todayKey(timeZone),
+        sets: {},
         durationMinutes: "",
         caloriesBurned: "",
+        caloriesEdited: false,
         mood: "good",
         notes: "",
       });
 
+      setLogCount(prev => prev + 1);
       onLogComplete?.();
     } catch (error) {
       console.error("Log error:", error);
@@ -120,6 +325,30 @@ export const WorkoutLogger = ({ user, exercises = DEFAULT_EXERCISES, planId, onL
     }
   };
 
+  if (session) {
+    return (
+      <Card className="p-6 shadow-card">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center">
+            <Play className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold">Workout in Progress</h3>
+            <p className="text-sm text-muted-foreground">Complete each set as you go</p>
+          </div>
+        </div>
+        <LiveWorkoutSession
+          session={session}
+          unitSystem={unitSystem}
+          previousSets={previousSets}
+          onChange={changeSession}
+          onFinish={finishWorkout}
+          onCancel={() => changeSession(null)}
+        />
+      </Card>
+    );
+  }
+
   return (
     <Card className="p-6 shadow-card">
       <div className="flex items-center gap-3 mb-6">
@@ -128,11 +357,18 @@ export const WorkoutLogger = ({ user, exercises = DEFAULT_EXERCISES, planId, onL
         </div>
         <div>
           <h3 className="text-xl font-bold">Log Workout</h3>
-          <p className="text-sm text-muted-foreground">Track your completed exercises</p>
+          <p className="text-sm text-muted-foreground">Track every set you complete</p>
         </div>
       </div>
 
       <div className="space-y-5">
+        {user && (
+          <Button onClick={startWorkout} variant="outline" className="w-full gap-2">
+            <Play className="w-4 h-4" />
+            Start Workout
+          </Button>
+        )}
+
         <div className="space-y-2">
           <Label htmlFor="workoutDate">Workout Date</Label>
           <Input
@@ -144,28 +380,110 @@ export const WorkoutLogger = ({ user, exercises = DEFAULT_EXERCISES, planId, onL
         </div>
 
         <div className="space-y-2">
-          <Label>Exercises Completed</Label>
+          <Label>Exercises</Label>
           <div className="grid grid-cols-2 gap-2">
             {exercises.map((exercise) => (
               <div
                 key={exercise}
                 className={`flex items-center space-x-2 p-2 rounded-lg border cursor-pointer transition-colors ${
-                  formData.exercisesCompleted.includes(exercise)
+                  formData.sets[exercise]
                     ? "bg-primary/10 border-primary"
                     : "hover:bg-muted"
                 }`}
                 onClick={() => toggleExercise(exercise)}
               >
                 <Checkbox
-                  checked={formData.exercisesCompleted.includes(exercise)}
+                  checked={Boolean(formData.sets[exercise])}
                   onCheckedChange={() => toggleExercise(exercise)}
                 />
-                <span className="text-sm">{exercise}</span>
+                <span className="text-sm">{getExerciseName(exercise)}</span>
               </div>
             ))}
           </div>
         </div>
 
+        {Object.entries(formData.sets).map(([exercise, sets]) => {
+          const previous = previousSets[exercise];
+          const fields = SET_FIELDS[getSetKind(exercise)];
+
+          return (
+            <div key={exercise} className="space-y-2 p-3 rounded-lg border">
+              <div>
+                <p className="font-semibold text-sm">{getExerciseName(exercise)}</p>
+                {previous && (
+                  <p className="text-xs text-muted-foreground">
+                    Last time: {previous.map(set => formatSet(set, unitSystem)).join(", ")}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-[1.5rem_1fr_1fr_1fr_1fr_1.5rem_1.5rem] gap-1 items-center text-xs text-muted-foreground">
+                <span>#</span>
+                {fields.map((field) => (
+                  <span key={field}>{field === "load" ? weightUnit(unitSystem) : SET_FIELD_LABELS[field]}</span>
+                ))}
+                <span>RPE</span>
+                <span>Rest s</span>
+                <span>✓</span>
+                <span />
+              </div>
+              {sets.map((set, index) => (
+                <div key={index} className="grid grid-cols-[1.5rem_1fr_1fr_1fr_1fr_1.5rem_1.5rem] gap-1 items-center">
+                  <span className="text-sm text-muted-foreground">{index + 1}</span>
+                  {fields.map((field) => (
+                    <Input
+                      key={field}
+                      type="number"
+                      min={0}
+                      step={field === "load" ? "0.5" : undefined}
+                      value={set[field]}
+                      onChange={(e) => updateSet(exercise, index, { [field]: e.target.value })}
+                      className="h-8 px-2"
+                      aria-label={`Set ${index + 1} ${SET_FIELD_LABELS[field].toLowerCase()}`}
+                    />
+                  ))}
+                  <Input
+                    type="number"
+                    min={RPE_MIN}
+                    max={RPE_MAX}
+                    step="0.5"
+                    value={set.rpe}
+                    onChange={(e) => updateSet(exercise, index, { rpe: e.target.value })}
+                    className="h-8 px-2"
+                    aria-label={`Set ${index + 1} RPE`}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step="15"
+                    value={set.rest}
+                    onChange={(e) => updateSet(exercise, index, { rest: e.target.value })}
+                    className="h-8 px-2"
+                    aria-label={`Set ${index + 1} rest`}
+                  />
+                  <Checkbox
+                    checked={set.completed}
+                    onCheckedChange={(checked) => updateSet(exercise, index, { completed: checked === true })}
+                    aria-label={`Set ${index + 1} completed`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeSet(exercise, index)}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label={`Remove set ${index + 1}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => addSet(exercise)} className="w-full gap-2">
+                <Plus className="w-4 h-4" />
+                Add Set
+              </Button>
+            </div>
+          );
+        })}
+
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-2">
             <Label htmlFor="duration" className="flex items-center gap-1">
@@ -187,9 +505,28 @@ export const WorkoutLogger = ({ user, exercises = DEFAULT_EXERCISES, planId, onL
               id="calories"
               type="number"
               placeholder="300"
-              value={formData.caloriesBurned}
-              onChange={(e) => setFormData({ ...formData, caloriesBurned: e.target.value })}
+              value={calories}
+              onChange={(e) => setFormData({ ...formData, caloriesBurned: e.target.value, caloriesEdited: true })}
             />
+            {useEstimate && weightKg && (
+              <p className="text-xs text-muted-foreground">
+                Estimated from MET values at {formatWeight(weightKg, unitSystem)}
+              </p>
+            )}
+            {!useEstimate && estimatedCalories !== null && (
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, caloriesEdited: false })}
+                className="text-xs text-primary hover:underline"
+              >
+                Use estimate ({estimatedCalories} kcal)
+              </button>
+            )}
+            {!weightKg && (
+              <p className="text-xs text-muted-foreground">
+                Save a plan with your weight to estimate calories
+              </p>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { getBrowserTimeZone, todayKey } from "@/lib/dates";
+import {
+  findNewAchievements,
+  getAchievementRule,
+  type Achievement,
+  type AchievementStats,
+} from "@/lib/achievements";
+
+const EMPTY_STATS: AchievementStats = {
+  totalWorkouts: 0,
+  totalMinutes: 0,
+  currentStreak: 0,
+  personalRecords: 0,
+  measurements: 0,
+};
+
+// Evaluates the achievement rules whenever `refreshTrigger` or the streak
+// changes, stores newly earned badges and announces them with a toast
+export function useAchievements(
+  user: User | null | undefined,
+  currentStreak: number,
+  timeZone = getBrowserTimeZone(),
+  refreshTrigger?: number
+) {
+  const { toast } = useToast();
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [stats, setStats] = useState<AchievementStats>(EMPTY_STATS);
+  const [loading, setLoading] = useState(false);
+  const today = todayKey(timeZone);
+
+  useEffect(() => {
+    if (!user) {
+      setAchievements([]);
+      setStats(EMPTY_STATS);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const [totalsResult, recordsResult, measurementsResult, achievementsResult] = await Promise.all([
+        supabase.rpc("get_workout_totals", { p_today: today }),
+        // Baselines from an exercise's first logged sets aren't records the logger announces
+        supabase
+          .from("personal_records")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", user.id)
+          .not("previous_value", "is", null),
+        supabase.from("body_measurements").select("id", { count: "exact", head: true }).eq("user_id", user.id),
+        supabase.from("achievements").select("*").eq("user_id", user.id).order("unlocked_at", { ascending: true }),
+      ]);
+      if (cancelled) return;
+
+      [totalsResult, recordsResult, measurementsResult, achievementsResult].forEach(({ error }) => {
+        if (error) console.error("Error loading achievements:", error);
+      });
+      if (achievementsResult.error) return;
+
+      const totals = totalsResult.data?.[0];
+      const nextStats: AchievementStats = {
+        totalWorkouts: totals?.total_workouts ?? 0,
+        totalMinutes: totals?.total_duration ?? 0,
+        currentStreak,
+        personalRecords: recordsResult.count ?? 0,
+        measurements: measurementsResult.count ?? 0,
+      };
+      const stored = achievementsResult.data ?? [];
+      setStats(nextStats);
+      setAchievements(stored);
+
+      const earned = findNewAchievements(nextStats, stored.map(achievement => achievement.achievement_id));
+      if (earned.length === 0) return;
+
+      // Only rows this call actually inserted come back, so a badge is announced once
+      const { data: inserted, error } = await supabase
+        .from("achievements")
+        .upsert(
+          earned.map(rule => ({ user_id: user.id, achievement_id: rule.id })),
+          { onConflict: "user_id,achievement_id", ignoreDuplicates: true }
+        )
+        .select();
+
+      if (error) {
+        console.error("Unlock achievements error:", error);
+        return;
+      }
+      if (!inserted?.length) return;
+
+      if (!cancelled) setAchievements(prev => [...prev, ...inserted]);
+      inserted.forEach(achievement => {
+        const rule = getAchievementRule(achievement.achievement_id);
+        if (!rule) return;
+        toast({
+          title: `Badge Unlocked: ${rule.title} ${rule.emoji}`,
+          description: rule.description,
+        });
+      });
+    };
+
+    setLoading(true);
+    load().finally(() => {
+      if (!cancelled) setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, currentStreak, today, refreshTrigger, toast]);
+
+  return { achievements, stats, loading };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ActivePlan } from "@/lib/activePlan";
+import { parseSavedPlanExercises } from "@/lib/planStorage";
+
+export function useActivePlan(planId: string | null | undefined) {
+  const [activePlan, setActivePlan] = useState<ActivePlan | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!planId) {
+      setActivePlan(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    supabase
+      .from("fitness_plans")
+      .select("id, name, exercises")
+      .eq("id", planId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading active plan:", error);
+        setActivePlan(data && {
+          id: data.id,
+          name: data.name,
+          weeklyPlan: parseSavedPlanExercises(data.exercises).weeklyPlan,
+        });
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [planId]);
+
+  return { activePlan, loading };
+}
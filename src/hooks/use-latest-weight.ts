@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Body weight in kg from the user's latest weigh-in, falling back to the weight
+// on their most recently saved plan
+export function useLatestWeight(user: User | null | undefined, refreshTrigger?: number) {
+  const [weightKg, setWeightKg] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setWeightKg(null);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const { data: measurement, error } = await supabase
+        .from("body_measurements")
+        .select("weight_kg")
+        .eq("user_id", user.id)
+        .not("weight_kg", "is", null)
+        .order("measured_on", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) console.error("Error loading weight:", error);
+      if (measurement?.weight_kg) return measurement.weight_kg;
+
+      const { data: plan, error: planError } = await supabase
+        .from("fitness_plans")
+        .select("weight")
+        .eq("user_id", user.id)
+        .not("weight", "is", null)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (planError) console.error("Error loading weight:", planError);
+      return plan?.weight ?? null;
+    };
+
+    load().then((weight) => {
+      if (!cancelled) setWeightKg(weight);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, refreshTrigger]);
+
+  return weightKg;
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import type { Profile } from "@/lib/profile";
+
+export function useProfile(user: User | null | undefined) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setProfile(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading profile:", error);
+        setProfile(data);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const saveProfile = useCallback(
+    async (changes: TablesUpdate<"profiles">) => {
+      if (!user) throw new Error("Not signed in");
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .upsert({ ...changes, id: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      setProfile(data);
+      return data;
+    },
+    [user]
+  );
+
+  return { profile, loading, saveProfile };
+}
@@ -0,0 +1,43 @@
+import { useEffect, useMemo, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { getBrowserTimeZone, todayKey } from "@/lib/dates";
+import type { WeeklyPlan } from "@/lib/planEngine";
+import { EMPTY_STREAK, getRestSinceKey, getRestWeekdays, toStreakStatus, type StreakStatus } from "@/lib/streaks";
+
+// The current streak, counting the active plan's rest days as kept from the
+// day it became active (`profiles.active_plan_since`)
+export function useStreak(
+  user: User | null | undefined,
+  weeklyPlan: WeeklyPlan[] | undefined,
+  activePlanSince: string | null | undefined,
+  timeZone = getBrowserTimeZone(),
+  refreshTrigger?: number
+) {
+  const [streak, setStreak] = useState<StreakStatus>(EMPTY_STREAK);
+  const today = todayKey(timeZone);
+  const restWeekdays = useMemo(() => getRestWeekdays(weeklyPlan), [weeklyPlan]);
+  const restSince = getRestSinceKey(activePlanSince, timeZone);
+
+  useEffect(() => {
+    if (!user) {
+      setStreak(EMPTY_STREAK);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .rpc("get_current_streak", { p_today: today, p_rest_weekdays: restWeekdays, p_rest_since: restSince })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading streak:", error);
+        setStreak(toStreakStatus(data?.[0]));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, today, restWeekdays, restSince, refreshTrigger]);
+
+  return streak;
+}
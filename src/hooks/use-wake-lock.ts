@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+
+// Keeps the screen on while `active`. The browser drops the lock whenever the
+// page is hidden, so it is requested again when the page becomes visible.
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !("wakeLock" in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const request = async () => {
+      try {
+        sentinel = await navigator.wakeLock.request("screen");
+        if (released) sentinel.release();
+      } catch (error) {
+        console.error("Wake lock error:", error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") request();
+    };
+
+    request();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      released = true;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      sentinel?.release();
+    };
+  }, [active]);
+}
@@ -14,93 +14,347 @@ export type Database = {
   }
   public: {
     Tables: {
+      achievements: {
+        Row: {
+          achievement_id: string
+          id: string
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          id?: string
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          id?: string
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      body_measurements: {
+        Row: {
+          arm_cm: number | null
+          body_fat_percent: number | null
+          chest_cm: number | null
+          created_at: string
+          hip_cm: number | null
+          id: string
+          measured_on: string
+          notes: string | null
+          thigh_cm: number | null
+          user_id: string
+          waist_cm: number | null
+          weight_kg: number | null
+        }
+        Insert: {
+          arm_cm?: number | null
+          body_fat_percent?: number | null
+          chest_cm?: number | null
+          created_at?: string
+          hip_cm?: number | null
+          id?: string
+          measured_on?: string
+          notes?: string | null
+          thigh_cm?: number | null
+          user_id: string
+          waist_cm?: number | null
+          weight_kg?: number | null
+        }
+        Update: {
+          arm_cm?: number | null
+          body_fat_percent?: number | null
+          chest_cm?: number | null
+          created_at?: string
+          hip_cm?: number | null
+          id?: string
+          measured_on?: string
+          notes?: string | null
+          thigh_cm?: number | null
+          user_id?: string
+          waist_cm?: number | null
+          weight_kg?: number | null
+        }
+        Relationships: []
+      }
       fitness_plans: {
         Row: {
           activity_level: string | null
           age: number | null
+          allergies: string[] | null
           bmi: number | null
           bmi_category: string | null
+          body_fat_percent: number | null
+          change_history: Json
           created_at: string
           diet_plan: Json | null
           diet_preferences: string[] | null
+          disliked_foods: string[] | null
           equipment: string | null
           exercises: Json | null
           gender: string | null
           goal: string | null
+          health_conditions: string[] | null
           height: number | null
           id: string
+          lineage_id: string
           medical_records: string[] | null
           name: string | null
           notes: Json | null
+          nutrition_targets: Json | null
+          parent_plan_id: string | null
+          updated_at: string
           user_id: string
+          version: number
           weight: number | null
         }
         Insert: {
           activity_level?: string | null
           age?: number | null
+          allergies?: string[] | null
           bmi?: number | null
           bmi_category?: string | null
+          body_fat_percent?: number | null
+          change_history?: Json
           created_at?: string
           diet_plan?: Json | null
           diet_preferences?: string[] | null
+          disliked_foods?: string[] | null
           equipment?: string | null
           exercises?: Json | null
           gender?: string | null
           goal?: string | null
+          health_conditions?: string[] | null
           height?: number | null
           id?: string
+          lineage_id?: string
           medical_records?: string[] | null
           name?: string | null
           notes?: Json | null
+          nutrition_targets?: Json | null
+          parent_plan_id?: string | null
+          updated_at?: string
           user_id: string
+          version?: number
           weight?: number | null
         }
         Update: {
           activity_level?: string | null
           age?: number | null
+          allergies?: string[] | null
           bmi?: number | null
           bmi_category?: string | null
+          body_fat_percent?: number | null
+          change_history?: Json
           created_at?: string
           diet_plan?: Json | null
           diet_preferences?: string[] | null
+          disliked_foods?: string[] | null
           equipment?: string | null
           exercises?: Json | null
           gender?: string | null
           goal?: string | null
+          health_conditions?: string[] | null
           height?: number | null
           id?: string
+          lineage_id?: string
           medical_records?: string[] | null
           name?: string | null
           notes?: Json | null
+          nutrition_targets?: Json | null
+          parent_plan_id?: string | null
+          updated_at?: string
           user_id?: string
+          version?: number
           weight?: number | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "fitness_plans_parent_plan_id_fkey"
+            columns: ["parent_plan_id"]
+            isOneToOne: false
+            referencedRelation: "fitness_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goals: {
+        Row: {
+          achieved_on: string | null
+          created_at: string
+          exercise_id: string | null
+          goal_type: string
+          id: string
+          start_date: string
+          start_value: number | null
+          target_date: string | null
+          target_value: number
+          user_id: string
+        }
+        Insert: {
+          achieved_on?: string | null
+          created_at?: string
+          exercise_id?: string | null
+          goal_type: string
+          id?: string
+          start_date?: string
+          start_value?: number | null
+          target_date?: string | null
+          target_value: number
+          user_id: string
+        }
+        Update: {
+          achieved_on?: string | null
+          created_at?: string
+          exercise_id?: string | null
+          goal_type?: string
+          id?: string
+          start_date?: string
+          start_value?: number | null
+          target_date?: string | null
+          target_value?: number
+          user_id?: string
+        }
         Relationships: []
       }
+      personal_records: {
+        Row: {
+          achieved_on: string
+          created_at: string
+          distance_meters: number | null
+          exercise_id: string
+          formula: string | null
+          id: string
+          load_kg: number | null
+          previous_value: number | null
+          record_type: string
+          user_id: string
+          value: number
+          workout_log_id: string
+          workout_set_id: string | null
+        }
+        Insert: {
+          achieved_on: string
+          created_at?: string
+          distance_meters?: number | null
+          exercise_id: string
+          formula?: string | null
+          id?: string
+          load_kg?: number | null
+          previous_value?: number | null
+          record_type: string
+          user_id: string
+          value: number
+          workout_log_id: string
+          workout_set_id?: string | null
+        }
+        Update: {
+          achieved_on?: string
+          created_at?: string
+          distance_meters?: number | null
+          exercise_id?: string
+          formula?: string | null
+          id?: string
+          load_kg?: number | null
+          previous_value?: number | null
+          record_type?: string
+          user_id?: string
+          value?: number
+          workout_log_id?: string
+          workout_set_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "personal_records_workout_log_id_fkey"
+            columns: ["workout_log_id"]
+            isOneToOne: false
+            referencedRelation: "workout_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "personal_records_workout_set_id_fkey"
+            columns: ["workout_set_id"]
+            isOneToOne: false
+            referencedRelation: "workout_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          active_plan_id: string | null
+          active_plan_since: string | null
+          allergies: string[]
           created_at: string
+          date_of_birth: string | null
+          diet_preferences: string[]
+          disliked_foods: string[]
+          equipment: string[]
           full_name: string | null
+          health_conditions: string[]
+          height_cm: number | null
           id: string
+          one_rep_max_formula: string
+          sex: string | null
+          timezone: string | null
+          unit_preference: string
           updated_at: string
         }
         Insert: {
+          active_plan_id?: string | null
+          active_plan_since?: string | null
+          allergies?: string[]
           created_at?: string
+          date_of_birth?: string | null
+          diet_preferences?: string[]
+          disliked_foods?: string[]
+          equipment?: string[]
           full_name?: string | null
+          health_conditions?: string[]
+          height_cm?: number | null
           id: string
+          one_rep_max_formula?: string
+          sex?: string | null
+          timezone?: string | null
+          unit_preference?: string
           updated_at?: string
         }
         Update: {
+          active_plan_id?: string | null
+          active_plan_since?: string | null
+          allergies?: string[]
           created_at?: string
+          date_of_birth?: string | null
+          diet_preferences?: string[]
+          disliked_foods?: string[]
+          equipment?: string[]
           full_name?: string | null
+          health_conditions?: string[]
+          height_cm?: number | null
           id?: string
+          one_rep_max_formula?: string
+          sex?: string | null
+          timezone?: string | null
+          unit_preference?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_active_plan_id_fkey"
+            columns: ["active_plan_id"]
+            isOneToOne: false
+            referencedRelation: "fitness_plans"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       workout_logs: {
         Row: {
           calories_burned: number | null
+          calories_method: string | null
           created_at: string
           duration_minutes: number | null
           exercises_completed: Json
@@ -108,11 +362,13 @@ export type Database = {
           id: string
           mood: string | null
           notes: string | null
+          plan_day: string | null
           user_id: string
           workout_date: string
         }
         Insert: {
           calories_burned?: number | null
+          calories_method?: string | null
           created_at?: string
           duration_minutes?: number | null
           exercises_completed?: Json
@@ -120,11 +376,13 @@ export type Database = {
           id?: string
           mood?: string | null
           notes?: string | null
+          plan_day?: string | null
           user_id: string
           workout_date?: string
         }
         Update: {
           calories_burned?: number | null
+          calories_method?: string | null
           created_at?: string
           duration_minutes?: number | null
           exercises_completed?: Json
@@ -132,6 +390,7 @@ export type Database = {
           id?: string
           mood?: string | null
           notes?: string | null
+          plan_day?: string | null
           user_id?: string
           workout_date?: string
         }
@@ -145,12 +404,139 @@ export type Database = {
           },
         ]
       }
+      workout_sets: {
+        Row: {
+          completed: boolean
+          created_at: string
+          distance_meters: number | null
+          duration_seconds: number | null
+          exercise_id: string
+          id: string
+          load_kg: number | null
+          reps: number | null
+          rest_seconds: number | null
+          rpe: number | null
+          set_number: number
+          user_id: string
+          workout_log_id: string
+        }
+        Insert: {
+          completed?: boolean
+          created_at?: string
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          exercise_id: string
+          id?: string
+          load_kg?: number | null
+          reps?: number | null
+          rest_seconds?: number | null
+          rpe?: number | null
+          set_number: number
+          user_id: string
+          workout_log_id: string
+        }
+        Update: {
+          completed?: boolean
+          created_at?: string
+          distance_meters?: number | null
+          duration_seconds?: number | null
+          exercise_id?: string
+          id?: string
+          load_kg?: number | null
+          reps?: number | null
+          rest_seconds?: number | null
+          rpe?: number | null
+          set_number?: number
+          user_id?: string
+          workout_log_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_sets_workout_log_id_fkey"
+            columns: ["workout_log_id"]
+            isOneToOne: false
+            referencedRelation: "workout_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      get_current_streak: {
+        Args: {
+          p_rest_since?: string
+          p_rest_weekdays?: number[]
+          p_today: string
+        }
+        Returns: {
+          current_streak: number
+          freezes: number
+          frozen_days: string[]
+        }[]
+      }
+      get_daily_exercise_volume: {
+        Args: { p_exercise_id: string; p_since?: string }
+        Returns: {
+          day: string
+          volume_kg: number
+        }[]
+      }
+      get_daily_workout_stats: {
+        Args: { p_since: string }
+        Returns: {
+          day: string
+          duration: number
+          volume_kg: number
+          workouts: number
+        }[]
+      }
+      get_exercise_summaries: {
+        Args: never
+        Returns: {
+          best_load_kg: number
+          exercise_id: string
+          last_performed: string
+          sessions: number
+          total_reps: number
+          total_sets: number
+          total_volume_kg: number
+        }[]
+      }
+      get_mood_counts: {
+        Args: { p_since?: string }
+        Returns: {
+          mood: string
+          workouts: number
+        }[]
+      }
+      get_volume_exercises: {
+        Args: { p_since?: string }
+        Returns: {
+          exercise_id: string
+          weighted_sets: number
+        }[]
+      }
+      get_weekly_workout_stats: {
+        Args: { p_since?: string }
+        Returns: {
+          calories: number
+          duration: number
+          week_start: string
+          workouts: number
+        }[]
+      }
+      get_workout_totals: {
+        Args: { p_today: string }
+        Returns: {
+          this_week_workouts: number
+          total_calories: number
+          total_duration: number
+          total_workouts: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { findNewAchievements, getAchievementRule, isUnlocked, type AchievementStats } from "./achievements";
+import { detectPersonalRecords, toPersonalRecordRows } from "./personalRecords";
+
+const EMPTY_STATS: AchievementStats = {
+  totalWorkouts: 0,
+  totalMinutes: 0,
+  currentStreak: 0,
+  personalRecords: 0,
+  measurements: 0,
+};
+
+const squat = (id: string, loadKg: number) => ({
+  id,
+  exercise_id: "barbell_squat",
+  reps: 5,
+  load_kg: loadKg,
+  duration_seconds: null,
+  distance_meters: null,
+  completed: true,
+});
+
+// The rows use-achievements counts: saved records with a previous best
+const countRecords = (rows: { previous_value?: number | null }[]) =>
+  rows.filter(row => row.previous_value !== null && row.previous_value !== undefined).length;
+
+describe("first_pr", () => {
+  const rule = getAchievementRule("first_pr")!;
+
+  it("unlocks with one record", () => {
+    expect(isUnlocked(rule, EMPTY_STATS)).toBe(false);
+    expect(isUnlocked(rule, { ...EMPTY_STATS, personalRecords: 1 })).toBe(true);
+  });
+
+  it("waits for a beaten best rather than the first weighted workout", () => {
+    const firstRows = toPersonalRecordRows("user", "log-1", "2026-10-01", detectPersonalRecords([squat("a", 100)], []));
+    const afterFirst = { ...EMPTY_STATS, totalWorkouts: 1, personalRecords: countRecords(firstRows) };
+
+    expect(firstRows.length).toBeGreaterThan(0);
+    expect(findNewAchievements(afterFirst, []).map(found => found.id)).not.toContain("first_pr");
+
+    const history = firstRows.map((row, index) => ({
+      id: `row-${index}`,
+      created_at: "2026-10-01T12:00:00Z",
+      distance_meters: null,
+      formula: null,
+      load_kg: null,
+      previous_value: null,
+      workout_set_id: null,
+      ...row,
+    }));
+    const secondRows = toPersonalRecordRows(
+      "user",
+      "log-2",
+      "2026-10-08",
+      detectPersonalRecords([squat("b", 105)], history)
+    );
+    const afterSecond = { ...afterFirst, totalWorkouts: 2, personalRecords: countRecords([...firstRows, ...secondRows]) };
+
+    expect(findNewAchievements(afterSecond, ["first_workout"]).map(found => found.id)).toEqual(["first_pr"]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Achievement = Tables<"achievements">;
+
+export type AchievementId =
+  | "first_workout"
+  | "workouts_10"
+  | "workouts_50"
+  | "workouts_100"
+  | "streak_30"
+  | "minutes_1000"
+  | "first_pr"
+  | "first_weigh_in";
+
+// What the rules are evaluated against
+export interface AchievementStats {
+  totalWorkouts: number;
+  totalMinutes: number;
+  currentStreak: number;
+  // Records that beat an earlier best, not first results for an exercise
+  personalRecords: number;
+  measurements: number;
+}
+
+export interface AchievementRule {
+  id: AchievementId;
+  title: string;
+  description: string;
+  emoji: string;
+  // How far along the user is, for locked badges in the gallery
+  progress: (stats: AchievementStats) => { current: number; target: number };
+}
+
+const countRule = (
+  id: AchievementId,
+  title: string,
+  description: string,
+  emoji: string,
+  stat: keyof AchievementStats,
+  target: number
+): AchievementRule => ({
+  id,
+  title,
+  description,
+  emoji,
+  progress: stats => ({ current: Math.min(stats[stat], target), target }),
+});
+
+// Gallery order
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  countRule("first_workout", "First Step", "Log your first workout", "👟", "totalWorkouts", 1),
+  countRule("workouts_10", "Getting Started", "Log 10 workouts", "💪", "totalWorkouts", 10),
+  countRule("workouts_50", "Committed", "Log 50 workouts", "🏋️", "totalWorkouts", 50),
+  countRule("workouts_100", "Centurion", "Log 100 workouts", "💯", "totalWorkouts", 100),
+  countRule("streak_30", "On Fire", "Keep a 30-day streak", "🔥", "currentStreak", 30),
+  countRule("minutes_1000", "Time Well Spent", "Train for 1,000 minutes in total", "⏱️", "totalMinutes", 1000),
+  countRule("first_pr", "Record Breaker", "Set your first personal record", "🏆", "personalRecords", 1),
+  countRule("first_weigh_in", "Baseline", "Log your first weigh-in", "⚖️", "measurements", 1),
+];
+
+export const getAchievementRule = (id: string): AchievementRule | undefined =>
+  ACHIEVEMENT_RULES.find(rule => rule.id === id);
+
+export const isUnlocked = (rule: AchievementRule, stats: AchievementStats): boolean => {
+  const { current, target } = rule.progress(stats);
+  return current >= target;
+};
+
+// Rules met by `stats` that haven't been stored yet
+export const findNewAchievements = (stats: AchievementStats, unlocked: string[]): AchievementRule[] =>
+  ACHIEVEMENT_RULES.filter(rule => !unlocked.includes(rule.id) && isUnlocked(rule, stats));
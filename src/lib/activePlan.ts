@@ -0,0 +1,13 @@
+import { format } from "date-fns";
+import type { WeeklyPlan } from "./planEngine";
+
+// The saved plan a user is following, as the progress page needs it
+export interface ActivePlan {
+  id: string;
+  name: string | null;
+  weeklyPlan: WeeklyPlan[];
+}
+
+// Weekly plans run Monday to Sunday and are matched on the weekday name
+export const getPlanDayForDate = (weeklyPlan: WeeklyPlan[], date: Date): WeeklyPlan | undefined =>
+  weeklyPlan.find(day => day.day === format(date, "EEEE"));
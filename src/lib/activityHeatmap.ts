@@ -0,0 +1,46 @@
+import { addDays, format, startOfWeek, subYears } from "date-fns";
+
+export type HeatmapMetric = "duration" | "volume";
+
+export interface HeatmapDay {
+  date: string;
+  workouts: number;
+  duration: number;
+  // Reps × load in kg
+  volume: number;
+}
+
+// Number of shades above "no activity"
+export const HEATMAP_LEVELS = 4;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Columns of Monday-first weeks covering the year up to `end`. Days after
+// `end` are null so the current week renders partially filled.
+export const buildHeatmapWeeks = (activeDays: HeatmapDay[], end: Date): (HeatmapDay | null)[][] => {
+  const days: Record<string, HeatmapDay> = {};
+  activeDays.forEach(day => {
+    days[day.date] = day;
+  });
+
+  const last = format(end, "yyyy-MM-dd");
+  const weeks: (HeatmapDay | null)[][] = [];
+  for (let date = startOfWeek(addDays(subYears(end, 1), 1), WEEK_OPTIONS); date <= end; date = addDays(date, 7)) {
+    weeks.push(
+      Array.from({ length: 7 }, (_, offset) => {
+        const key = format(addDays(date, offset), "yyyy-MM-dd");
+        if (key > last) return null;
+        return days[key] ?? { date: key, workouts: 0, duration: 0, volume: 0 };
+      })
+    );
+  }
+  return weeks;
+};
+
+// 0 for rest days, otherwise 1..HEATMAP_LEVELS relative to the busiest day
+export const getHeatmapLevel = (value: number, max: number): number =>
+  value <= 0 || max <= 0 ? 0 : Math.max(1, Math.ceil((value / max) * HEATMAP_LEVELS));
+
+// A day counts as active even when the chosen metric wasn't recorded
+export const getHeatmapValue = (day: HeatmapDay, metric: HeatmapMetric): number =>
+  day[metric] > 0 ? day[metric] : day.workouts > 0 ? 1 : 0;
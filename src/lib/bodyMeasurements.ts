@@ -0,0 +1,95 @@
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { calculateBMI } from "./planEngine";
+import { toDisplayLength, toDisplayWeight, type UnitSystem } from "./units";
+
+export type BodyMeasurement = Tables<"body_measurements">;
+
+export type CircumferenceField = "waist_cm" | "hip_cm" | "chest_cm" | "arm_cm" | "thigh_cm";
+
+export const CIRCUMFERENCE_FIELDS: CircumferenceField[] = ["waist_cm", "hip_cm", "chest_cm", "arm_cm", "thigh_cm"];
+
+export const CIRCUMFERENCE_LABELS: Record<CircumferenceField, string> = {
+  waist_cm: "Waist",
+  hip_cm: "Hip",
+  chest_cm: "Chest",
+  arm_cm: "Arm",
+  thigh_cm: "Thigh",
+};
+
+// Entry form values, already converted to kg and cm
+export interface MeasurementDraft {
+  measuredOn: string;
+  weightKg: number | null;
+  bodyFatPercent: string;
+  circumferences: Record<CircumferenceField, number | null>;
+  notes: string;
+}
+
+// One point per weigh-in, in display units
+export interface MeasurementTrendPoint {
+  date: string;
+  weight: number | null;
+  bmi: number | null;
+  bodyFat: number | null;
+  waist: number | null;
+  hip: number | null;
+  chest: number | null;
+  arm: number | null;
+  thigh: number | null;
+}
+
+export const emptyMeasurementDraft = (measuredOn: string): MeasurementDraft => ({
+  measuredOn,
+  weightKg: null,
+  bodyFatPercent: "",
+  circumferences: { waist_cm: null, hip_cm: null, chest_cm: null, arm_cm: null, thigh_cm: null },
+  notes: "",
+});
+
+// Returns an error message, or null if the draft can be saved
+export const validateMeasurementDraft = (draft: MeasurementDraft): string | null => {
+  if (!draft.measuredOn) return "Please pick a date";
+
+  const bodyFat = draft.bodyFatPercent ? parseFloat(draft.bodyFatPercent) : null;
+  if (bodyFat !== null && !(bodyFat > 0 && bodyFat < 100)) return "Body fat must be between 0 and 100%";
+
+  const hasValue =
+    draft.weightKg !== null || bodyFat !== null || Object.values(draft.circumferences).some(value => value !== null);
+  return hasValue ? null : "Enter a weight or at least one measurement";
+};
+
+export const toBodyMeasurementRow = (userId: string, draft: MeasurementDraft): TablesInsert<"body_measurements"> => ({
+  user_id: userId,
+  measured_on: draft.measuredOn,
+  weight_kg: draft.weightKg,
+  body_fat_percent: draft.bodyFatPercent ? parseFloat(draft.bodyFatPercent) : null,
+  ...draft.circumferences,
+  notes: draft.notes || null,
+});
+
+// BMI for a single weigh-in, or null without both a weight and a height
+export const getMeasurementBMI = (measurement: BodyMeasurement, heightCm: number | null): number | null =>
+  measurement.weight_kg && heightCm ? calculateBMI(measurement.weight_kg, heightCm) : null;
+
+const displayLength = (cm: number | null, unitSystem: UnitSystem) =>
+  cm === null ? null : toDisplayLength(cm, unitSystem);
+
+// Oldest first so the charts read left to right
+export const buildMeasurementTrend = (
+  measurements: BodyMeasurement[],
+  heightCm: number | null,
+  unitSystem: UnitSystem
+): MeasurementTrendPoint[] =>
+  [...measurements]
+    .sort((a, b) => a.measured_on.localeCompare(b.measured_on) || a.created_at.localeCompare(b.created_at))
+    .map(measurement => ({
+      date: measurement.measured_on,
+      weight: measurement.weight_kg === null ? null : toDisplayWeight(measurement.weight_kg, unitSystem),
+      bmi: getMeasurementBMI(measurement, heightCm),
+      bodyFat: measurement.body_fat_percent,
+      waist: displayLength(measurement.waist_cm, unitSystem),
+      hip: displayLength(measurement.hip_cm, unitSystem),
+      chest: displayLength(measurement.chest_cm, unitSystem),
+      arm: displayLength(measurement.arm_cm, unitSystem),
+      thigh: displayLength(measurement.thigh_cm, unitSystem),
+    }));
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { format } from "date-fns";
+import { addDaysToKey, daysBetweenKeys, parseDateKey, startOfWeekKey, toDateKey, todayKey } from "./dates";
+
+// 2026's clock changes; all of them fall on a Sunday
+const DST_CHANGES = [
+  { timeZone: "America/New_York", change: "spring forward", day: "2026-03-08", monday: "2026-03-02" },
+  { timeZone: "America/New_York", change: "fall back", day: "2026-11-01", monday: "2026-10-26" },
+  { timeZone: "Europe/London", change: "spring forward", day: "2026-03-29", monday: "2026-03-23" },
+  { timeZone: "Europe/London", change: "fall back", day: "2026-10-25", monday: "2026-10-19" },
+];
+
+describe("todayKey", () => {
+  it.each([
+    // New York: 2am EST jumps to 3am EDT
+    { timeZone: "America/New_York", instant: "2026-03-08T04:59:59Z", key: "2026-03-07" },
+    { timeZone: "America/New_York", instant: "2026-03-08T05:00:00Z", key: "2026-03-08" },
+    { timeZone: "America/New_York", instant: "2026-03-08T07:00:00Z", key: "2026-03-08" },
+    { timeZone: "America/New_York", instant: "2026-03-09T03:59:59Z", key: "2026-03-08" },
+    { timeZone: "America/New_York", instant: "2026-03-09T04:00:00Z", key: "2026-03-09" },
+    // New York: 2am EDT falls back to 1am EST
+    { timeZone: "America/New_York", instant: "2026-11-01T03:59:59Z", key: "2026-10-31" },
+    { timeZone: "America/New_York", instant: "2026-11-01T04:00:00Z", key: "2026-11-01" },
+    { timeZone: "America/New_York", instant: "2026-11-01T06:30:00Z", key: "2026-11-01" },
+    { timeZone: "America/New_York", instant: "2026-11-02T04:59:59Z", key: "2026-11-01" },
+    { timeZone: "America/New_York", instant: "2026-11-02T05:00:00Z", key: "2026-11-02" },
+    // London: 1am GMT jumps to 2am BST
+    { timeZone: "Europe/London", instant: "2026-03-28T23:59:59Z", key: "2026-03-28" },
+    { timeZone: "Europe/London", instant: "2026-03-29T00:00:00Z", key: "2026-03-29" },
+    { timeZone: "Europe/London", instant: "2026-03-29T22:59:59Z", key: "2026-03-29" },
+    { timeZone: "Europe/London", instant: "2026-03-29T23:00:00Z", key: "2026-03-30" },
+    // London: 2am BST falls back to 1am GMT
+    { timeZone: "Europe/London", instant: "2026-10-24T22:59:59Z", key: "2026-10-24" },
+    { timeZone: "Europe/London", instant: "2026-10-24T23:00:00Z", key: "2026-10-25" },
+    { timeZone: "Europe/London", instant: "2026-10-25T23:59:59Z", key: "2026-10-25" },
+    { timeZone: "Europe/London", instant: "2026-10-26T00:00:00Z", key: "2026-10-26" },
+  ])("is $key at $instant in $timeZone", ({ timeZone, instant, key }) => {
+    expect(todayKey(timeZone, new Date(instant))).toBe(key);
+    expect(toDateKey(new Date(instant), timeZone)).toBe(key);
+  });
+});
+
+// The host zone decides what `parseDateKey` and date-fns see, so run the
+// calendar arithmetic under each zone as well as UTC
+describe.each(["UTC", "America/New_York", "Europe/London"])("with the host in %s", (hostZone) => {
+  let previousZone: string | undefined;
+
+  beforeEach(() => {
+    previousZone = process.env.TZ;
+    process.env.TZ = hostZone;
+  });
+
+  afterEach(() => {
+    if (previousZone === undefined) delete process.env.TZ;
+    else process.env.TZ = previousZone;
+  });
+
+  describe.each(DST_CHANGES)("around the $timeZone $change on $day", ({ day, monday }) => {
+    it("keeps the neighbouring days one day apart", () => {
+      expect(addDaysToKey(day, -1)).toBe(addDaysToKey(monday, 5));
+      expect(addDaysToKey(day, 1)).toBe(addDaysToKey(monday, 7));
+      expect(daysBetweenKeys(addDaysToKey(day, -1), day)).toBe(1);
+      expect(daysBetweenKeys(day, addDaysToKey(day, 1))).toBe(1);
+      expect(daysBetweenKeys(monday, day)).toBe(6);
+    });
+
+    it("finds the start of the week", () => {
+      expect(startOfWeekKey(day)).toBe(monday);
+      expect(startOfWeekKey(day, 0)).toBe(day);
+      expect(startOfWeekKey(addDaysToKey(day, 1))).toBe(addDaysToKey(monday, 7));
+      expect(startOfWeekKey(addDaysToKey(day, -1), 0)).toBe(addDaysToKey(day, -7));
+    });
+
+    it("walks each day of the week exactly once", () => {
+      const walked: string[] = [];
+      for (let key = monday; key <= addDaysToKey(monday, 13); key = addDaysToKey(key, 1)) {
+        walked.push(key);
+      }
+
+      expect(walked).toHaveLength(14);
+      expect(new Set(walked).size).toBe(14);
+      expect(walked.map(key => format(parseDateKey(key), "EEEE"))).toEqual([
+        "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday",
+        "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday",
+      ]);
+      walked.forEach(key => expect(format(parseDateKey(key), "yyyy-MM-dd")).toBe(key));
+    });
+  });
+});
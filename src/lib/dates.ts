@@ -0,0 +1,94 @@
+// Workouts and weigh-ins are stored as calendar days (`yyyy-MM-dd` keys), not
+// instants. "Today" depends on the user's time zone; everything after that is
+// plain calendar arithmetic done in UTC, where every day is 24 hours long.
+
+export const TIME_ZONE_OPTIONS = [
+  "Pacific/Honolulu",
+  "America/Anchorage",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Atlantic/Reykjavik",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Athens",
+  "Europe/Moscow",
+  "Africa/Lagos",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Karachi",
+  "Asia/Kolkata",
+  "Asia/Dhaka",
+  "Asia/Bangkok",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+const MS_PER_DAY = 86400000;
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// The saved preference, or the browser's zone when unset or unknown
+export const resolveTimeZone = (timeZone: string | null | undefined): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : getBrowserTimeZone();
+
+// The calendar day `instant` falls on in `timeZone`
+export const toDateKey = (instant: Date, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+};
+
+export const todayKey = (timeZone: string, now = new Date()): string => toDateKey(now, timeZone);
+
+const keyToUTC = (key: string): number => {
+  const [year, month, day] = key.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const utcToKey = (ms: number): string => new Date(ms).toISOString().slice(0, 10);
+
+export const addDaysToKey = (key: string, days: number): string => utcToKey(keyToUTC(key) + days * MS_PER_DAY);
+
+// Whole calendar days from `from` to `to`
+export const daysBetweenKeys = (from: string, to: string): number =>
+  Math.round((keyToUTC(to) - keyToUTC(from)) / MS_PER_DAY);
+
+// Monday of the key's week by default; 0 = Sunday as in date-fns
+export const startOfWeekKey = (key: string, weekStartsOn = 1): string => {
+  const weekday = new Date(keyToUTC(key)).getUTCDay();
+  return addDaysToKey(key, -((weekday - weekStartsOn + 7) % 7));
+};
+
+// Local midnight of a key, for display with date-fns `format`. `new Date(key)`
+// would parse as UTC midnight and show the previous day west of UTC.
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const startOfMonthKey = (key: string): string => `${key.slice(0, 7)}-01`;
+
+export const endOfMonthKey = (key: string): string => {
+  const [year, month] = key.split("-").map(Number);
+  // Day 0 of the next month is the last day of this one
+  return utcToKey(Date.UTC(year, month, 0));
+};
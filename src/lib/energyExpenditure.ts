@@ -0,0 +1,105 @@
+import { getExercise, type ExerciseCategory } from "./exerciseCatalog";
+import type { SetDraft } from "./workoutSets";
+
+// How `workout_logs.calories_burned` was filled in
+export type CaloriesMethod = "met" | "manual";
+
+// MET values from the Compendium of Physical Activities. Exercises not listed
+// use their category's value.
+const CATEGORY_METS: Record<ExerciseCategory, number> = {
+  strength: 5.0,
+  cardio: 7.0,
+  mobility: 2.5,
+};
+
+const EXERCISE_METS: Record<string, number> = {
+  push_ups: 8.0,
+  bodyweight_squats: 5.0,
+  plank: 3.8,
+  lunges: 5.0,
+  mountain_climbers: 8.0,
+  crunches: 3.8,
+  burpees: 8.0,
+  high_knees: 8.0,
+  jumping_jacks: 7.7,
+  walking: 3.5,
+  light_stretching: 2.3,
+  barbell_deadlift: 6.0,
+  barbell_squats: 6.0,
+  kettlebell_swings: 9.8,
+  kettlebell_clean_press: 9.8,
+  turkish_get_ups: 6.0,
+  banded_rows: 3.5,
+  banded_squats: 3.5,
+  banded_chest_press: 3.5,
+  banded_face_pulls: 3.5,
+  banded_bicep_curls: 3.5,
+  pull_ups: 8.0,
+  chin_ups: 8.0,
+  dead_hangs: 3.0,
+  treadmill_running: 9.8,
+  incline_walk: 6.0,
+  hiit_sprints: 12.0,
+  cycling_intervals: 8.8,
+  steady_state_cycling: 6.8,
+  hiit_bike_sprints: 11.0,
+  rowing_intervals: 8.5,
+  steady_state_rowing: 7.0,
+  row_sprints: 12.0,
+  box_jumps: 8.0,
+  yoga_flow: 2.5,
+  stretching_routine: 2.3,
+  medicine_ball_slams: 8.0,
+  wall_balls: 8.0,
+  jump_rope: 11.8,
+  double_unders: 12.3,
+  jump_rope_hiit: 12.3,
+  foam_rolling: 2.0,
+};
+
+// Standing around between sets
+const REST_MET = 1.5;
+// Time under tension for rep-based sets, and a fallback when reps are blank
+const SECONDS_PER_REP = 3;
+const SECONDS_PER_UNTIMED_SET = 40;
+
+export const getMetValue = (exerciseId: string): number => {
+  const exercise = getExercise(exerciseId);
+  return EXERCISE_METS[exerciseId] ?? (exercise ? CATEGORY_METS[exercise.category] : CATEGORY_METS.strength);
+};
+
+// kcal = MET x body weight (kg) x hours
+export const caloriesForActivity = (met: number, weightKg: number, seconds: number): number =>
+  met * weightKg * (seconds / 3600);
+
+const setActiveSeconds = (set: SetDraft): number => {
+  const duration = parseFloat(set.duration);
+  if (duration > 0) return duration;
+  const reps = parseFloat(set.reps);
+  return reps > 0 ? reps * SECONDS_PER_REP : SECONDS_PER_UNTIMED_SET;
+};
+
+// Active time is taken from the completed sets. Rest is whatever is left of the
+// workout's duration, or the rest logged between sets when no duration is given.
+export const estimateWorkoutCalories = (
+  setsByExercise: Record<string, SetDraft[]>,
+  weightKg: number,
+  durationMinutes: number | null
+): number => {
+  let activeSeconds = 0;
+  let restSeconds = 0;
+  let activeCalories = 0;
+
+  Object.entries(setsByExercise).forEach(([exerciseId, sets]) => {
+    const met = getMetValue(exerciseId);
+    sets.filter(set => set.completed).forEach(set => {
+      const seconds = setActiveSeconds(set);
+      activeSeconds += seconds;
+      restSeconds += parseFloat(set.rest) || 0;
+      activeCalories += caloriesForActivity(met, weightKg, seconds);
+    });
+  });
+
+  const totalRestSeconds = durationMinutes !== null ? Math.max(0, durationMinutes * 60 - activeSeconds) : restSeconds;
+  return Math.round(activeCalories + caloriesForActivity(REST_MET, weightKg, totalRestSeconds));
+};
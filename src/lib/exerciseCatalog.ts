@@ -0,0 +1,270 @@
+export const EQUIPMENT_OPTIONS = [
+  { id: "bodyweight", label: "Bodyweight Only" },
+  { id: "dumbbells", label: "Dumbbells" },
+  { id: "barbell", label: "Barbell & Plates" },
+  { id: "kettlebell", label: "Kettlebells" },
+  { id: "resistance_bands", label: "Resistance Bands" },
+  { id: "pull_up_bar", label: "Pull-up Bar" },
+  { id: "treadmill", label: "Treadmill" },
+  { id: "stationary_bike", label: "Stationary Bike" },
+  { id: "rowing_machine", label: "Rowing Machine" },
+  { id: "cable_machine", label: "Cable Machine" },
+  { id: "bench", label: "Workout Bench" },
+  { id: "yoga_mat", label: "Yoga Mat" },
+  { id: "medicine_ball", label: "Medicine Ball" },
+  { id: "jump_rope", label: "Jump Rope" },
+  { id: "foam_roller", label: "Foam Roller" },
+] as const;
+
+export type EquipmentId = (typeof EQUIPMENT_OPTIONS)[number]["id"];
+
+export type MuscleGroup =
+  | "chest"
+  | "back"
+  | "shoulders"
+  | "biceps"
+  | "triceps"
+  | "core"
+  | "quads"
+  | "hamstrings"
+  | "glutes"
+  | "calves"
+  | "cardio"
+  | "full_body";
+
+export const MUSCLE_GROUP_LABELS: Record<MuscleGroup, string> = {
+  chest: "Chest",
+  back: "Back",
+  shoulders: "Shoulders",
+  biceps: "Biceps",
+  triceps: "Triceps",
+  core: "Core",
+  quads: "Quads",
+  hamstrings: "Hamstrings",
+  glutes: "Glutes",
+  calves: "Calves",
+  cardio: "Cardio",
+  full_body: "Full Body",
+};
+
+export type ExerciseCategory = "strength" | "cardio" | "mobility";
+export type Difficulty = "beginner" | "intermediate" | "advanced";
+export type Contraindication =
+  | "knee"
+  | "lower_back"
+  | "shoulder"
+  | "wrist"
+  | "hypertension"
+  | "heart_condition"
+  | "pregnancy";
+
+export const HEALTH_CONDITION_OPTIONS: { id: Contraindication; label: string }[] = [
+  { id: "knee", label: "Knee injury" },
+  { id: "lower_back", label: "Lower back pain" },
+  { id: "shoulder", label: "Shoulder injury" },
+  { id: "wrist", label: "Wrist pain" },
+  { id: "hypertension", label: "High blood pressure" },
+  { id: "heart_condition", label: "Heart condition" },
+  { id: "pregnancy", label: "Pregnancy" },
+];
+
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  category: ExerciseCategory;
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  // Every listed item is required; an empty list means no equipment at all.
+  equipment: EquipmentId[];
+  defaultSets: number;
+  defaultReps: number | null;
+  defaultDurationSeconds: number | null;
+  defaultDistanceMeters?: number;
+  perSide?: boolean;
+  difficulty: Difficulty;
+  contraindications: Contraindication[];
+}
+
+export interface Prescription {
+  sets: number;
+  reps: number | null;
+  durationSeconds: number | null;
+  distanceMeters?: number;
+  perSide?: boolean;
+}
+
+// User edits layered over a prescription
+export type ExerciseOverride = Partial<Pick<Prescription, "sets" | "reps">>;
+
+export const EXERCISE_CATALOG: CatalogExercise[] = [
+  // Bodyweight
+  { id: "push_ups", name: "Push-Ups", category: "strength", primaryMuscles: ["chest"], secondaryMuscles: ["triceps", "shoulders", "core"], equipment: [], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["wrist", "shoulder"] },
+  { id: "bodyweight_squats", name: "Bodyweight Squats", category: "strength", primaryMuscles: ["quads", "glutes"], secondaryMuscles: ["hamstrings", "core"], equipment: [], defaultSets: 3, defaultReps: 20, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["knee"] },
+  { id: "plank", name: "Planks", category: "strength", primaryMuscles: ["core"], secondaryMuscles: ["shoulders"], equipment: [], defaultSets: 3, defaultReps: null, defaultDurationSeconds: 45, difficulty: "beginner", contraindications: [] },
+  { id: "lunges", name: "Lunges", category: "strength", primaryMuscles: ["quads", "glutes"], secondaryMuscles: ["hamstrings"], equipment: [], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, perSide: true, difficulty: "beginner", contraindications: ["knee"] },
+  { id: "mountain_climbers", name: "Mountain Climbers", category: "strength", primaryMuscles: ["core"], secondaryMuscles: ["shoulders", "quads"], equipment: [], defaultSets: 3, defaultReps: null, defaultDurationSeconds: 30, difficulty: "intermediate", contraindications: ["wrist"] },
+  { id: "crunches", name: "Crunches", category: "strength", primaryMuscles: ["core"], secondaryMuscles: [], equipment: [], defaultSets: 3, defaultReps: 20, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["lower_back", "pregnancy"] },
+  { id: "burpees", name: "Burpees", category: "cardio", primaryMuscles: ["quads", "chest"], secondaryMuscles: ["core", "shoulders"], equipment: [], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["knee", "wrist", "hypertension", "pregnancy"] },
+  { id: "high_knees", name: "High Knees", category: "cardio", primaryMuscles: ["quads"], secondaryMuscles: ["core", "calves"], equipment: [], defaultSets: 3, defaultReps: null, defaultDurationSeconds: 45, difficulty: "beginner", contraindications: ["knee", "pregnancy"] },
+  { id: "jumping_jacks", name: "Jumping Jacks", category: "cardio", primaryMuscles: ["calves"], secondaryMuscles: ["shoulders"], equipment: [], defaultSets: 3, defaultReps: null, defaultDurationSeconds: 45, difficulty: "beginner", contraindications: ["knee", "pregnancy"] },
+  { id: "walking", name: "Walking", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["calves"], equipment: [], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 1500, difficulty: "beginner", contraindications: [] },
+  { id: "light_stretching", name: "Light Stretching", category: "mobility", primaryMuscles: ["full_body"], secondaryMuscles: [], equipment: [], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 600, difficulty: "beginner", contraindications: [] },
+
+  // Dumbbells
+  { id: "dumbbell_bench_press", name: "Dumbbell Bench Press", category: "strength", primaryMuscles: ["chest"], secondaryMuscles: ["triceps", "shoulders"], equipment: ["dumbbells"], defaultSets: 4, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder"] },
+  { id: "dumbbell_shoulder_press", name: "Dumbbell Shoulder Press", category: "strength", primaryMuscles: ["shoulders"], secondaryMuscles: ["triceps"], equipment: ["dumbbells"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["shoulder", "hypertension"] },
+  { id: "dumbbell_bicep_curls", name: "Dumbbell Bicep Curls", category: "strength", primaryMuscles: ["biceps"], secondaryMuscles: [], equipment: ["dumbbells"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+  { id: "dumbbell_rows", name: "Dumbbell Rows", category: "strength", primaryMuscles: ["back"], secondaryMuscles: ["biceps"], equipment: ["dumbbells"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["lower_back"] },
+  { id: "goblet_squats", name: "Goblet Squats", category: "strength", primaryMuscles: ["quads", "glutes"], secondaryMuscles: ["core"], equipment: ["dumbbells"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["knee"] },
+
+  // Barbell
+  { id: "barbell_deadlift", name: "Barbell Deadlift", category: "strength", primaryMuscles: ["hamstrings", "glutes", "back"], secondaryMuscles: ["core"], equipment: ["barbell"], defaultSets: 4, defaultReps: 6, defaultDurationSeconds: null, difficulty: "advanced", contraindications: ["lower_back", "hypertension", "pregnancy"] },
+  { id: "barbell_squats", name: "Barbell Squats", category: "strength", primaryMuscles: ["quads", "glutes"], secondaryMuscles: ["hamstrings", "core"], equipment: ["barbell"], defaultSets: 4, defaultReps: 8, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["knee", "lower_back", "pregnancy"] },
+  { id: "barbell_bench_press", name: "Barbell Bench Press", category: "strength", primaryMuscles: ["chest"], secondaryMuscles: ["triceps", "shoulders"], equipment: ["barbell"], defaultSets: 4, defaultReps: 8, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder"] },
+  { id: "barbell_rows", name: "Barbell Rows", category: "strength", primaryMuscles: ["back"], secondaryMuscles: ["biceps"], equipment: ["barbell"], defaultSets: 4, defaultReps: 8, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["lower_back"] },
+  { id: "overhead_press", name: "Overhead Press", category: "strength", primaryMuscles: ["shoulders"], secondaryMuscles: ["triceps", "core"], equipment: ["barbell"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder", "hypertension"] },
+
+  // Kettlebell
+  { id: "kettlebell_swings", name: "Kettlebell Swings", category: "strength", primaryMuscles: ["glutes", "hamstrings"], secondaryMuscles: ["core", "back"], equipment: ["kettlebell"], defaultSets: 4, defaultReps: 15, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["lower_back", "pregnancy"] },
+  { id: "kettlebell_goblet_squats", name: "Kettlebell Goblet Squats", category: "strength", primaryMuscles: ["quads", "glutes"], secondaryMuscles: ["core"], equipment: ["kettlebell"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["knee"] },
+  { id: "turkish_get_ups", name: "Turkish Get-Ups", category: "strength", primaryMuscles: ["core", "shoulders"], secondaryMuscles: ["glutes"], equipment: ["kettlebell"], defaultSets: 2, defaultReps: 5, defaultDurationSeconds: null, perSide: true, difficulty: "advanced", contraindications: ["shoulder", "wrist"] },
+  { id: "kettlebell_clean_press", name: "Kettlebell Clean & Press", category: "strength", primaryMuscles: ["shoulders"], secondaryMuscles: ["glutes", "hamstrings", "core"], equipment: ["kettlebell"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder", "lower_back"] },
+
+  // Resistance bands
+  { id: "banded_rows", name: "Banded Rows", category: "strength", primaryMuscles: ["back"], secondaryMuscles: ["biceps"], equipment: ["resistance_bands"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+  { id: "banded_squats", name: "Banded Squats", category: "strength", primaryMuscles: ["quads", "glutes"], secondaryMuscles: [], equipment: ["resistance_bands"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["knee"] },
+  { id: "banded_chest_press", name: "Banded Chest Press", category: "strength", primaryMuscles: ["chest"], secondaryMuscles: ["triceps"], equipment: ["resistance_bands"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+  { id: "banded_face_pulls", name: "Banded Face Pulls", category: "strength", primaryMuscles: ["shoulders"], secondaryMuscles: ["back"], equipment: ["resistance_bands"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+  { id: "banded_bicep_curls", name: "Banded Bicep Curls", category: "strength", primaryMuscles: ["biceps"], secondaryMuscles: [], equipment: ["resistance_bands"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+
+  // Pull-up bar
+  { id: "pull_ups", name: "Pull-Ups", category: "strength", primaryMuscles: ["back"], secondaryMuscles: ["biceps"], equipment: ["pull_up_bar"], defaultSets: 3, defaultReps: null, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder"] },
+  { id: "chin_ups", name: "Chin-Ups", category: "strength", primaryMuscles: ["back", "biceps"], secondaryMuscles: [], equipment: ["pull_up_bar"], defaultSets: 3, defaultReps: null, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder"] },
+  { id: "hanging_leg_raises", name: "Hanging Leg Raises", category: "strength", primaryMuscles: ["core"], secondaryMuscles: [], equipment: ["pull_up_bar"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["lower_back", "pregnancy"] },
+  { id: "dead_hangs", name: "Dead Hangs", category: "strength", primaryMuscles: ["back"], secondaryMuscles: ["shoulders"], equipment: ["pull_up_bar"], defaultSets: 3, defaultReps: null, defaultDurationSeconds: 30, difficulty: "beginner", contraindications: ["shoulder"] },
+
+  // Treadmill
+  { id: "treadmill_running", name: "Treadmill Running", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["quads", "calves"], equipment: ["treadmill"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 1500, difficulty: "intermediate", contraindications: ["knee"] },
+  { id: "incline_walk", name: "Incline Walk", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["glutes", "calves"], equipment: ["treadmill"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 900, difficulty: "beginner", contraindications: [] },
+  { id: "hiit_sprints", name: "HIIT Sprints", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["quads", "hamstrings"], equipment: ["treadmill"], defaultSets: 10, defaultReps: null, defaultDurationSeconds: 30, difficulty: "advanced", contraindications: ["knee", "hypertension", "heart_condition", "pregnancy"] },
+
+  // Stationary bike
+  { id: "cycling_intervals", name: "Cycling Intervals", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["quads"], equipment: ["stationary_bike"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 1200, difficulty: "intermediate", contraindications: ["heart_condition"] },
+  { id: "steady_state_cycling", name: "Steady State Cycling", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["quads"], equipment: ["stationary_bike"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 1800, difficulty: "beginner", contraindications: [] },
+  { id: "hiit_bike_sprints", name: "HIIT Bike Sprints", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["quads", "hamstrings"], equipment: ["stationary_bike"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 900, difficulty: "advanced", contraindications: ["hypertension", "heart_condition"] },
+
+  // Rowing machine
+  { id: "rowing_intervals", name: "Rowing Intervals", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["back", "quads"], equipment: ["rowing_machine"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 900, difficulty: "intermediate", contraindications: ["lower_back"] },
+  { id: "steady_state_rowing", name: "Steady State Rowing", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["back", "quads"], equipment: ["rowing_machine"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 1200, difficulty: "beginner", contraindications: ["lower_back"] },
+  { id: "row_sprints", name: "Row Sprints", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["back", "quads"], equipment: ["rowing_machine"], defaultSets: 5, defaultReps: null, defaultDurationSeconds: null, defaultDistanceMeters: 500, difficulty: "advanced", contraindications: ["lower_back", "heart_condition"] },
+
+  // Cable machine
+  { id: "cable_flyes", name: "Cable Flyes", category: "strength", primaryMuscles: ["chest"], secondaryMuscles: ["shoulders"], equipment: ["cable_machine"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["shoulder"] },
+  { id: "cable_rows", name: "Cable Rows", category: "strength", primaryMuscles: ["back"], secondaryMuscles: ["biceps"], equipment: ["cable_machine"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+  { id: "tricep_pushdowns", name: "Tricep Pushdowns", category: "strength", primaryMuscles: ["triceps"], secondaryMuscles: [], equipment: ["cable_machine"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+  { id: "face_pulls", name: "Face Pulls", category: "strength", primaryMuscles: ["shoulders"], secondaryMuscles: ["back"], equipment: ["cable_machine"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+  { id: "cable_woodchops", name: "Cable Woodchops", category: "strength", primaryMuscles: ["core"], secondaryMuscles: ["shoulders"], equipment: ["cable_machine"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, perSide: true, difficulty: "intermediate", contraindications: ["lower_back"] },
+
+  // Bench
+  { id: "incline_dumbbell_press", name: "Incline Dumbbell Press", category: "strength", primaryMuscles: ["chest", "shoulders"], secondaryMuscles: ["triceps"], equipment: ["bench", "dumbbells"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder"] },
+  { id: "step_ups", name: "Step-Ups", category: "strength", primaryMuscles: ["quads", "glutes"], secondaryMuscles: ["hamstrings"], equipment: ["bench"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, perSide: true, difficulty: "beginner", contraindications: ["knee"] },
+  { id: "hip_thrusts", name: "Hip Thrusts", category: "strength", primaryMuscles: ["glutes"], secondaryMuscles: ["hamstrings"], equipment: ["bench"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["pregnancy"] },
+  { id: "box_jumps", name: "Box Jumps", category: "cardio", primaryMuscles: ["quads", "glutes"], secondaryMuscles: ["calves"], equipment: ["bench"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["knee", "pregnancy"] },
+
+  // Yoga mat
+  { id: "yoga_flow", name: "Yoga Flow", category: "mobility", primaryMuscles: ["full_body"], secondaryMuscles: ["core"], equipment: ["yoga_mat"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 1080, difficulty: "beginner", contraindications: [] },
+  { id: "stretching_routine", name: "Stretching Routine", category: "mobility", primaryMuscles: ["full_body"], secondaryMuscles: [], equipment: ["yoga_mat"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 600, difficulty: "beginner", contraindications: [] },
+  { id: "leg_raises", name: "Leg Raises", category: "strength", primaryMuscles: ["core"], secondaryMuscles: [], equipment: ["yoga_mat"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["lower_back", "pregnancy"] },
+  { id: "glute_bridges", name: "Glute Bridges", category: "strength", primaryMuscles: ["glutes"], secondaryMuscles: ["hamstrings"], equipment: ["yoga_mat"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "beginner", contraindications: [] },
+
+  // Medicine ball
+  { id: "medicine_ball_slams", name: "Medicine Ball Slams", category: "strength", primaryMuscles: ["shoulders", "core"], secondaryMuscles: ["back"], equipment: ["medicine_ball"], defaultSets: 3, defaultReps: 15, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["shoulder", "lower_back"] },
+  { id: "wall_balls", name: "Wall Balls", category: "strength", primaryMuscles: ["quads", "shoulders"], secondaryMuscles: ["glutes"], equipment: ["medicine_ball"], defaultSets: 3, defaultReps: 12, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["knee"] },
+  { id: "russian_twists", name: "Russian Twists with Ball", category: "strength", primaryMuscles: ["core"], secondaryMuscles: [], equipment: ["medicine_ball"], defaultSets: 3, defaultReps: 20, defaultDurationSeconds: null, difficulty: "beginner", contraindications: ["lower_back", "pregnancy"] },
+  { id: "med_ball_push_ups", name: "Med Ball Push-Ups", category: "strength", primaryMuscles: ["chest"], secondaryMuscles: ["triceps", "core"], equipment: ["medicine_ball"], defaultSets: 3, defaultReps: 10, defaultDurationSeconds: null, difficulty: "intermediate", contraindications: ["wrist", "shoulder"] },
+
+  // Jump rope
+  { id: "jump_rope", name: "Jump Rope", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["calves"], equipment: ["jump_rope"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 300, difficulty: "beginner", contraindications: ["knee"] },
+  { id: "double_unders", name: "Double Unders", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["calves"], equipment: ["jump_rope"], defaultSets: 3, defaultReps: null, defaultDurationSeconds: 30, difficulty: "advanced", contraindications: ["knee"] },
+  { id: "jump_rope_hiit", name: "Jump Rope HIIT", category: "cardio", primaryMuscles: ["cardio"], secondaryMuscles: ["calves"], equipment: ["jump_rope"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 600, difficulty: "intermediate", contraindications: ["knee", "hypertension"] },
+
+  // Foam roller
+  { id: "foam_rolling", name: "Foam Rolling", category: "mobility", primaryMuscles: ["full_body"], secondaryMuscles: [], equipment: ["foam_roller"], defaultSets: 1, defaultReps: null, defaultDurationSeconds: 600, difficulty: "beginner", contraindications: [] },
+];
+
+const CATALOG_BY_ID = new Map(EXERCISE_CATALOG.map(exercise => [exercise.id, exercise]));
+
+export const getExercise = (id: string): CatalogExercise | undefined => CATALOG_BY_ID.get(id);
+
+export const hasRequiredEquipment = (exercise: CatalogExercise, available: string[]): boolean =>
+  exercise.equipment.every(item => available.includes(item));
+
+export const isContraindicated = (exercise: CatalogExercise, conditions: Contraindication[]): boolean =>
+  exercise.contraindications.some(condition => conditions.includes(condition));
+
+const DIFFICULTY_ORDER: Difficulty[] = ["beginner", "intermediate", "advanced"];
+
+// Closest safe alternative: same category, sharing the most primary muscles,
+// then nearest in difficulty. Exercises in `taken` are only used as a last resort.
+export const findSubstitute = (
+  exercise: CatalogExercise,
+  conditions: Contraindication[],
+  equipment: string[],
+  taken: Set<string> = new Set()
+): CatalogExercise | undefined => {
+  const overlap = (candidate: CatalogExercise) =>
+    candidate.primaryMuscles.filter(muscle => exercise.primaryMuscles.includes(muscle)).length;
+  const difficultyGap = (candidate: CatalogExercise) =>
+    Math.abs(DIFFICULTY_ORDER.indexOf(candidate.difficulty) - DIFFICULTY_ORDER.indexOf(exercise.difficulty));
+
+  const candidates = EXERCISE_CATALOG.filter(candidate =>
+    candidate.id !== exercise.id &&
+    candidate.category === exercise.category &&
+    overlap(candidate) > 0 &&
+    !isContraindicated(candidate, conditions) &&
+    hasRequiredEquipment(candidate, equipment)
+  );
+  if (candidates.length === 0) return undefined;
+
+  // Lowest score wins; ties keep catalog order so the result is deterministic.
+  const score = (candidate: CatalogExercise) =>
+    (taken.has(candidate.id) ? 100 : 0) - overlap(candidate) * 10 + difficultyGap(candidate);
+  return candidates.reduce((best, candidate) => (score(candidate) < score(best) ? candidate : best));
+};
+
+// Older plans and logs stored display strings rather than ids, so anything not
+// in the catalog is shown as-is.
+export const getExerciseName = (idOrName: string): string => getExercise(idOrName)?.name ?? idOrName;
+
+export const defaultPrescription = (exercise: CatalogExercise): Prescription => ({
+  sets: exercise.defaultSets,
+  reps: exercise.defaultReps,
+  durationSeconds: exercise.defaultDurationSeconds,
+  distanceMeters: exercise.defaultDistanceMeters,
+  perSide: exercise.perSide,
+});
+
+export const formatPrescription = (prescription: Prescription): string => {
+  const { sets, reps, durationSeconds: seconds } = prescription;
+  const each = prescription.perSide ? " each" : "";
+
+  if (prescription.distanceMeters) return `${sets}x${prescription.distanceMeters}m`;
+  if (sets === 1 && seconds) return `${Math.round(seconds / 60)} mins`;
+  if (reps) return `${sets}x${reps}${each}`;
+  if (seconds) return `${sets}x${seconds}s${each}`;
+  return `${sets}x max`;
+};
+
+// Same-category exercises that work an overlapping muscle and fit the equipment
+export const getAlternatives = (exercise: CatalogExercise, equipment: string[]): CatalogExercise[] =>
+  EXERCISE_CATALOG.filter(candidate =>
+    candidate.id !== exercise.id &&
+    candidate.category === exercise.category &&
+    candidate.primaryMuscles.some(muscle => exercise.primaryMuscles.includes(muscle)) &&
+    hasRequiredEquipment(candidate, equipment)
+  );
+
+export const formatExercise = (idOrName: string): string => {
+  const exercise = getExercise(idOrName);
+  return exercise ? `${exercise.name} (${formatPrescription(defaultPrescription(exercise))})` : idOrName;
+};
@@ -0,0 +1,97 @@
+export type MealType = "breakfast" | "lunch" | "dinner" | "snack";
+export type FoodRole = "protein" | "carb" | "fat" | "vegetable" | "fruit";
+export type FoodTag = "meat" | "fish" | "egg" | "dairy" | "grain" | "legume" | "nut" | "processed" | "added_sugar";
+export type Allergen = "peanut" | "tree_nut" | "dairy" | "gluten" | "soy" | "egg" | "fish";
+
+export const ALLERGEN_OPTIONS: { id: Allergen; label: string }[] = [
+  { id: "peanut", label: "Peanuts" },
+  { id: "tree_nut", label: "Tree nuts" },
+  { id: "dairy", label: "Dairy / lactose" },
+  { id: "gluten", label: "Gluten" },
+  { id: "soy", label: "Soy" },
+  { id: "egg", label: "Eggs" },
+  { id: "fish", label: "Fish" },
+];
+
+export interface Macros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface FoodItem extends Macros {
+  id: string;
+  name: string;
+  // Macros are per serving
+  serving: string;
+  role: FoodRole;
+  meals: MealType[];
+  tags: FoodTag[];
+  allergens: Allergen[];
+}
+
+export const FOOD_DATABASE: FoodItem[] = [
+  // Protein
+  { id: "chicken_breast", name: "Grilled Chicken Breast", serving: "100g", role: "protein", meals: ["lunch", "dinner"], tags: ["meat"], allergens: [], calories: 165, protein: 31, carbs: 0, fat: 3.6 },
+  { id: "lean_mutton", name: "Lean Mutton", serving: "100g", role: "protein", meals: ["dinner"], tags: ["meat"], allergens: [], calories: 250, protein: 26, carbs: 0, fat: 15 },
+  { id: "grilled_fish", name: "Grilled Fish", serving: "100g", role: "protein", meals: ["lunch", "dinner"], tags: ["fish"], allergens: ["fish"], calories: 130, protein: 24, carbs: 0, fat: 3.5 },
+  { id: "salmon", name: "Baked Salmon", serving: "100g", role: "protein", meals: ["lunch", "dinner"], tags: ["fish"], allergens: ["fish"], calories: 208, protein: 20, carbs: 0, fat: 13 },
+  { id: "boiled_eggs", name: "Boiled Eggs", serving: "2 eggs", role: "protein", meals: ["breakfast", "snack"], tags: ["egg"], allergens: ["egg"], calories: 155, protein: 13, carbs: 1.1, fat: 11 },
+  { id: "egg_whites", name: "Egg White Omelette", serving: "100g", role: "protein", meals: ["breakfast"], tags: ["egg"], allergens: ["egg"], calories: 52, protein: 11, carbs: 0.7, fat: 0.2 },
+  { id: "paneer", name: "Paneer", serving: "100g", role: "protein", meals: ["breakfast", "lunch", "dinner"], tags: ["dairy"], allergens: ["dairy"], calories: 265, protein: 18, carbs: 1.2, fat: 21 },
+  { id: "greek_yogurt", name: "Greek Yogurt", serving: "150g", role: "protein", meals: ["breakfast", "snack"], tags: ["dairy"], allergens: ["dairy"], calories: 146, protein: 13.5, carbs: 6, fat: 7.5 },
+  { id: "milk", name: "Milk", serving: "250ml", role: "protein", meals: ["breakfast", "snack"], tags: ["dairy"], allergens: ["dairy"], calories: 150, protein: 8, carbs: 12, fat: 8 },
+  { id: "whey_shake", name: "Whey Protein Shake", serving: "1 scoop", role: "protein", meals: ["snack"], tags: ["dairy", "processed"], allergens: ["dairy"], calories: 120, protein: 24, carbs: 3, fat: 1.5 },
+  { id: "tofu", name: "Tofu", serving: "100g", role: "protein", meals: ["breakfast", "lunch", "dinner"], tags: ["legume"], allergens: ["soy"], calories: 144, protein: 15.7, carbs: 3.9, fat: 8.7 },
+  { id: "tempeh", name: "Tempeh", serving: "100g", role: "protein", meals: ["lunch", "dinner"], tags: ["legume"], allergens: ["soy"], calories: 192, protein: 20, carbs: 7.6, fat: 10.8 },
+  { id: "soy_chunks", name: "Soy Chunks", serving: "50g dry", role: "protein", meals: ["lunch", "dinner"], tags: ["legume"], allergens: ["soy"], calories: 173, protein: 26, carbs: 16.5, fat: 0.3 },
+  { id: "moong_dal", name: "Moong Dal", serving: "1 cup cooked", role: "protein", meals: ["lunch", "dinner"], tags: ["legume"], allergens: [], calories: 210, protein: 14, carbs: 38, fat: 0.8 },
+  { id: "rajma", name: "Rajma", serving: "1 cup cooked", role: "protein", meals: ["lunch", "dinner"], tags: ["legume"], allergens: [], calories: 225, protein: 15, carbs: 40, fat: 0.9 },
+  { id: "chickpeas", name: "Chickpeas", serving: "1 cup cooked", role: "protein", meals: ["lunch", "dinner"], tags: ["legume"], allergens: [], calories: 269, protein: 14.5, carbs: 45, fat: 4.2 },
+  { id: "roasted_chana", name: "Roasted Chana", serving: "30g", role: "protein", meals: ["snack"], tags: ["legume"], allergens: [], calories: 110, protein: 6, carbs: 18, fat: 1.8 },
+
+  // Carbohydrate
+  { id: "rolled_oats", name: "Rolled Oats", serving: "40g dry", role: "carb", meals: ["breakfast"], tags: ["grain"], allergens: ["gluten"], calories: 150, protein: 5, carbs: 27, fat: 2.6 },
+  { id: "whole_wheat_bread", name: "Whole Wheat Bread", serving: "2 slices", role: "carb", meals: ["breakfast"], tags: ["grain", "processed"], allergens: ["gluten"], calories: 160, protein: 8, carbs: 28, fat: 2 },
+  { id: "poha", name: "Poha", serving: "1 cup", role: "carb", meals: ["breakfast"], tags: ["grain"], allergens: [], calories: 180, protein: 3.5, carbs: 34, fat: 3.5 },
+  { id: "upma", name: "Upma", serving: "1 cup", role: "carb", meals: ["breakfast"], tags: ["grain"], allergens: ["gluten"], calories: 250, protein: 6, carbs: 38, fat: 8 },
+  { id: "brown_rice", name: "Brown Rice", serving: "1 cup cooked", role: "carb", meals: ["lunch", "dinner"], tags: ["grain"], allergens: [], calories: 216, protein: 5, carbs: 45, fat: 1.8 },
+  { id: "whole_wheat_roti", name: "Whole Wheat Roti", serving: "2 rotis", role: "carb", meals: ["lunch", "dinner"], tags: ["grain"], allergens: ["gluten"], calories: 212, protein: 7.6, carbs: 36, fat: 4 },
+  { id: "quinoa", name: "Quinoa", serving: "1 cup cooked", role: "carb", meals: ["lunch", "dinner"], tags: ["grain"], allergens: [], calories: 222, protein: 8, carbs: 39, fat: 3.6 },
+  { id: "sweet_potato", name: "Sweet Potato", serving: "150g", role: "carb", meals: ["breakfast", "lunch", "dinner"], tags: [], allergens: [], calories: 129, protein: 2.4, carbs: 30, fat: 0.1 },
+  { id: "boiled_potato", name: "Boiled Potato", serving: "150g", role: "carb", meals: ["lunch", "dinner"], tags: [], allergens: [], calories: 130, protein: 2.9, carbs: 30, fat: 0.2 },
+
+  // Fat
+  { id: "almonds", name: "Almonds", serving: "28g", role: "fat", meals: ["breakfast", "snack"], tags: ["nut"], allergens: ["tree_nut"], calories: 164, protein: 6, carbs: 6, fat: 14 },
+  { id: "walnuts", name: "Walnuts", serving: "28g", role: "fat", meals: ["breakfast", "snack"], tags: ["nut"], allergens: ["tree_nut"], calories: 185, protein: 4.3, carbs: 3.9, fat: 18.5 },
+  { id: "peanut_butter", name: "Peanut Butter", serving: "2 tbsp", role: "fat", meals: ["breakfast", "snack"], tags: ["legume"], allergens: ["peanut"], calories: 188, protein: 8, carbs: 6, fat: 16 },
+  { id: "pumpkin_seeds", name: "Pumpkin Seeds", serving: "30g", role: "fat", meals: ["breakfast", "snack"], tags: [], allergens: [], calories: 163, protein: 8.5, carbs: 4, fat: 14 },
+  { id: "chia_seeds", name: "Chia Seeds", serving: "28g", role: "fat", meals: ["breakfast", "snack"], tags: [], allergens: [], calories: 138, protein: 4.7, carbs: 12, fat: 8.7 },
+  { id: "avocado", name: "Avocado", serving: "half (100g)", role: "fat", meals: ["breakfast", "lunch", "dinner"], tags: [], allergens: [], calories: 160, protein: 2, carbs: 8.5, fat: 15 },
+  { id: "cheese", name: "Cheese", serving: "30g", role: "fat", meals: ["breakfast", "lunch", "dinner", "snack"], tags: ["dairy"], allergens: ["dairy"], calories: 120, protein: 7, carbs: 0.4, fat: 10 },
+  { id: "macadamia_nuts", name: "Macadamia Nuts", serving: "28g", role: "fat", meals: ["breakfast", "snack"], tags: ["nut"], allergens: ["tree_nut"], calories: 204, protein: 2.2, carbs: 3.9, fat: 21.5 },
+  { id: "olive_oil", name: "Olive Oil", serving: "1 tbsp", role: "fat", meals: ["breakfast", "lunch", "dinner"], tags: [], allergens: [], calories: 119, protein: 0, carbs: 0, fat: 13.5 },
+  { id: "ghee", name: "Ghee", serving: "1 tbsp", role: "fat", meals: ["lunch", "dinner"], tags: ["dairy"], allergens: ["dairy"], calories: 123, protein: 0, carbs: 0, fat: 14 },
+  { id: "coconut_oil", name: "Coconut Oil", serving: "1 tbsp", role: "fat", meals: ["breakfast", "lunch", "dinner"], tags: [], allergens: [], calories: 121, protein: 0, carbs: 0, fat: 13.5 },
+  { id: "coconut_flakes", name: "Coconut Flakes", serving: "30g", role: "fat", meals: ["breakfast", "snack"], tags: [], allergens: [], calories: 198, protein: 2, carbs: 7, fat: 19 },
+
+  // Vegetables
+  { id: "mixed_salad", name: "Mixed Green Salad", serving: "150g", role: "vegetable", meals: ["lunch", "dinner"], tags: [], allergens: [], calories: 30, protein: 2, carbs: 6, fat: 0.3 },
+  { id: "sauteed_spinach", name: "Sauteed Spinach", serving: "150g", role: "vegetable", meals: ["lunch", "dinner"], tags: [], allergens: [], calories: 35, protein: 4.3, carbs: 5.4, fat: 0.6 },
+  { id: "broccoli", name: "Steamed Broccoli", serving: "150g", role: "vegetable", meals: ["lunch", "dinner"], tags: [], allergens: [], calories: 51, protein: 4.2, carbs: 10, fat: 0.6 },
+  { id: "cauliflower_rice", name: "Cauliflower Rice", serving: "150g", role: "vegetable", meals: ["lunch", "dinner"], tags: [], allergens: [], calories: 38, protein: 3, carbs: 8, fat: 0.4 },
+  { id: "mixed_veg_sabzi", name: "Mixed Vegetable Sabzi", serving: "150g", role: "vegetable", meals: ["lunch", "dinner"], tags: [], allergens: [], calories: 90, protein: 3, carbs: 12, fat: 4 },
+
+  // Fruit
+  { id: "banana", name: "Banana", serving: "1 medium", role: "fruit", meals: ["breakfast", "snack"], tags: [], allergens: [], calories: 105, protein: 1.3, carbs: 27, fat: 0.4 },
+  { id: "apple", name: "Apple", serving: "1 medium", role: "fruit", meals: ["breakfast", "snack"], tags: [], allergens: [], calories: 95, protein: 0.5, carbs: 25, fat: 0.3 },
+  { id: "berries", name: "Mixed Berries", serving: "1 cup", role: "fruit", meals: ["breakfast", "snack"], tags: [], allergens: [], calories: 70, protein: 1, carbs: 17, fat: 0.5 },
+  { id: "papaya", name: "Papaya", serving: "1 cup", role: "fruit", meals: ["breakfast", "snack"], tags: [], allergens: [], calories: 62, protein: 0.7, carbs: 16, fat: 0.4 },
+];
+
+const FOOD_BY_ID = new Map(FOOD_DATABASE.map(food => [food.id, food]));
+
+export const getFood = (id: string): FoodItem | undefined => FOOD_BY_ID.get(id);
+
+export const getFoodName = (id: string): string => getFood(id)?.name ?? id;
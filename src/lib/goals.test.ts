@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { computeGoalProgress, toGoalRow, validateGoalDraft, type Goal, type GoalDraft } from "./goals";
+
+const TODAY = "2026-10-19";
+
+const liftDraft = (targetValue: number): GoalDraft => ({
+  goalType: "lift_pr",
+  targetValue,
+  exerciseId: "barbell_squat",
+  targetDate: "",
+});
+
+describe("validateGoalDraft", () => {
+  it("rejects lift targets at or below the current best", () => {
+    expect(validateGoalDraft(liftDraft(100), 100, TODAY)).toBe("The target must be heavier than your current best");
+    expect(validateGoalDraft(liftDraft(90), 100, TODAY)).toBe("The target must be heavier than your current best");
+  });
+
+  it("accepts lift targets above the current best, or with no best yet", () => {
+    expect(validateGoalDraft(liftDraft(102.5), 100, TODAY)).toBeNull();
+    expect(validateGoalDraft(liftDraft(60), null, TODAY)).toBeNull();
+  });
+
+  it("only compares lift goals against the start value", () => {
+    expect(validateGoalDraft({ ...liftDraft(65), goalType: "target_weight" }, 80, TODAY)).toBeNull();
+  });
+
+  it("isn't reached on the day an accepted lift goal is set", () => {
+    const draft = liftDraft(102.5);
+    const row = toGoalRow("user", draft, 100, TODAY);
+    const goal: Goal = {
+      id: "goal",
+      user_id: row.user_id,
+      goal_type: row.goal_type,
+      target_value: row.target_value,
+      exercise_id: row.exercise_id ?? null,
+      start_value: row.start_value ?? null,
+      start_date: TODAY,
+      target_date: null,
+      achieved_on: null,
+      created_at: `${TODAY}T09:00:00Z`,
+    };
+    const progress = computeGoalProgress(
+      goal,
+      { weighIns: [], liftBests: { barbell_squat: [{ date: "2026-10-01", value: 100 }] }, logs: [] },
+      TODAY
+    );
+
+    expect(validateGoalDraft(draft, 100, TODAY)).toBeNull();
+    expect(progress.achieved).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { addDaysToKey, daysBetweenKeys, endOfMonthKey, startOfMonthKey, startOfWeekKey } from "./dates";
+import { getExerciseName } from "./exerciseCatalog";
+import { formatWeight, type UnitSystem } from "./units";
+
+export type Goal = Tables<"goals">;
+
+export type GoalType = "target_weight" | "weekly_workouts" | "lift_pr" | "monthly_minutes";
+
+export const GOAL_TYPE_OPTIONS: { id: GoalType; label: string }[] = [
+  { id: "target_weight", label: "Target weight" },
+  { id: "weekly_workouts", label: "Workouts per week" },
+  { id: "lift_pr", label: "Lift PR" },
+  { id: "monthly_minutes", label: "Minutes per month" },
+];
+
+// A measurement on a calendar day; weights are in kg
+export interface DatedValue {
+  date: string;
+  value: number;
+}
+
+export interface GoalData {
+  // Oldest first
+  weighIns: DatedValue[];
+  // Heaviest load PRs per exercise, oldest first
+  liftBests: Record<string, DatedValue[]>;
+  // At least the current week and month
+  logs: { workout_date: string; duration_minutes: number | null }[];
+}
+
+export interface GoalProgress {
+  current: number | null;
+  // 0 to 1
+  progress: number;
+  achieved: boolean;
+  // When the target should be reached at the current rate, or null if it isn't heading there
+  projectedDate: string | null;
+  // Last day of the week or month for recurring goals
+  periodEnd: string | null;
+}
+
+export interface GoalDraft {
+  goalType: GoalType;
+  // kg for weight and lift goals
+  targetValue: number | null;
+  exerciseId: string;
+  targetDate: string;
+}
+
+const MIN_PROJECTION_POINTS = 2;
+
+// Readings since the goal was set, starting from the value it was set at
+const pointsSinceStart = (goal: Goal, readings: DatedValue[]): DatedValue[] => {
+  const since = readings.filter(reading => reading.date >= goal.start_date);
+  return goal.start_value === null ? since : [{ date: goal.start_date, value: goal.start_value }, ...since];
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Share of the way from `start` to `target`, in either direction
+const progressBetween = (start: number, current: number, target: number): number =>
+  start === target ? (current === target ? 1 : 0) : clamp((current - start) / (target - start));
+
+// Least-squares line through the points, extended until it meets `target`
+export const projectTargetDate = (points: DatedValue[], target: number, today: string): string | null => {
+  if (points.length < MIN_PROJECTION_POINTS) return null;
+
+  const first = points[0].date;
+  const xs = points.map(point => daysBetweenKeys(first, point.date));
+  const ys = points.map(point => point.value);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const covariance = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  if (variance === 0 || covariance === 0) return null;
+
+  const slope = covariance / variance;
+  const intercept = meanY - slope * meanX;
+  const daysFromFirst = (target - intercept) / slope;
+  const daysFromToday = Math.ceil(daysFromFirst - daysBetweenKeys(first, today));
+
+  const latest = ys[ys.length - 1];
+  if (Math.sign(target - latest) !== Math.sign(slope) && latest !== target) return null;
+  return addDaysToKey(today, Math.max(0, daysFromToday));
+};
+
+// Count towards `target` within a period, and the day it's reached at the pace so far
+const periodProgress = (
+  current: number,
+  target: number,
+  periodStart: string,
+  periodEnd: string,
+  today: string
+): GoalProgress => {
+  const achieved = current >= target;
+  const elapsedDays = daysBetweenKeys(periodStart, today) + 1;
+  let projectedDate: string | null = null;
+  if (achieved) {
+    projectedDate = today;
+  } else if (current > 0) {
+    const projected = addDaysToKey(periodStart, Math.ceil((target / current) * elapsedDays) - 1);
+    projectedDate = projected <= periodEnd ? projected : null;
+  }
+  return { current, progress: clamp(current / target), achieved, projectedDate, periodEnd };
+};
+
+export const computeGoalProgress = (goal: Goal, data: GoalData, today: string): GoalProgress => {
+  const target = goal.target_value;
+
+  switch (goal.goal_type as GoalType) {
+    case "weekly_workouts": {
+      const weekStart = startOfWeekKey(today);
+      const count = data.logs.filter(log => log.workout_date >= weekStart && log.workout_date <= today).length;
+      return periodProgress(count, target, weekStart, addDaysToKey(weekStart, 6), today);
+    }
+    case "monthly_minutes": {
+      const monthStart = startOfMonthKey(today);
+      const minutes = data.logs
+        .filter(log => log.workout_date >= monthStart && log.workout_date <= today)
+        .reduce((sum, log) => sum + (log.duration_minutes ?? 0), 0);
+      return periodProgress(minutes, target, monthStart, endOfMonthKey(today), today);
+    }
+    case "lift_pr": {
+      const bests = (goal.exercise_id && data.liftBests[goal.exercise_id]) || [];
+      const current = bests.length > 0 ? Math.max(...bests.map(best => best.value)) : null;
+      const achieved = current !== null && current >= target;
+      return {
+        current,
+        progress: current === null ? 0 : progressBetween(goal.start_value ?? 0, current, target),
+        achieved,
+        projectedDate: achieved ? today : projectTargetDate(pointsSinceStart(goal, bests), target, today),
+        periodEnd: null,
+      };
+    }
+    default: {
+      const points = pointsSinceStart(goal, data.weighIns);
+      const current = data.weighIns.length > 0 ? data.weighIns[data.weighIns.length - 1].value : null;
+      const start = points[0]?.value ?? current;
+      // Reached once the weight gets to the target from whichever side it started
+      const achieved = current !== null && start !== null && (start >= target ? current <= target : current >= target);
+      return {
+        current,
+        progress: current === null || start === null ? 0 : progressBetween(start, current, target),
+        achieved,
+        projectedDate: achieved ? today : projectTargetDate(points, target, today),
+        periodEnd: null,
+      };
+    }
+  }
+};
+
+export const formatGoalValue = (goal: Goal, value: number, unitSystem: UnitSystem): string => {
+  switch (goal.goal_type as GoalType) {
+    case "weekly_workouts":
+      return `${value} workout${value === 1 ? "" : "s"}`;
+    case "monthly_minutes":
+      return `${Math.round(value)} mins`;
+    default:
+      return formatWeight(value, unitSystem);
+  }
+};
+
+// "Reach 70 kg", "4 workouts a week", "Barbell Squats at 100 kg"
+export const describeGoal = (goal: Goal, unitSystem: UnitSystem): string => {
+  switch (goal.goal_type as GoalType) {
+    case "weekly_workouts":
+      return `${formatGoalValue(goal, goal.target_value, unitSystem)} a week`;
+    case "monthly_minutes":
+      return `${formatGoalValue(goal, goal.target_value, unitSystem)} a month`;
+    case "lift_pr":
+      return `${getExerciseName(goal.exercise_id ?? "")} at ${formatGoalValue(goal, goal.target_value, unitSystem)}`;
+    default:
+      return `Reach ${formatGoalValue(goal, goal.target_value, unitSystem)}`;
+  }
+};
+
+// Returns an error message, or null if the draft can be saved. `startValue` is
+// the current best for lift goals, which would count as reached straight away
+// if the target didn't beat it.
+export const validateGoalDraft = (draft: GoalDraft, startValue: number | null, today: string): string | null => {
+  if (!draft.targetValue || draft.targetValue <= 0) return "Please enter a target";
+  if (draft.goalType === "lift_pr" && !draft.exerciseId) return "Please pick an exercise";
+  if (draft.goalType === "lift_pr" && startValue !== null && draft.targetValue <= startValue) {
+    return "The target must be heavier than your current best";
+  }
+  if (draft.targetDate && draft.targetDate <= today) return "The target date must be in the future";
+  return null;
+};
+
+export const toGoalRow = (
+  userId: string,
+  draft: GoalDraft,
+  startValue: number | null,
+  today: string
+): TablesInsert<"goals"> => ({
+  user_id: userId,
+  goal_type: draft.goalType,
+  target_value: draft.targetValue ?? 0,
+  exercise_id: draft.goalType === "lift_pr" ? draft.exerciseId : null,
+  start_value: startValue,
+  start_date: today,
+  target_date: draft.targetDate || null,
+});
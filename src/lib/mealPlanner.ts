@@ -0,0 +1,311 @@
+import {
+  FOOD_DATABASE,
+  getFood,
+  type Allergen,
+  type FoodItem,
+  type FoodRole,
+  type Macros,
+  type MealType,
+} from "./foodDatabase";
+import type { NutritionTargets } from "./nutrition";
+
+export interface MealItem {
+  foodId: string;
+  servings: number;
+}
+
+export interface Meal {
+  type: MealType;
+  items: MealItem[];
+  totals: Macros;
+}
+
+export interface DayMeals {
+  day: string;
+  meals: Meal[];
+  totals: Macros;
+  withinTolerance: boolean;
+}
+
+export interface MealPlan {
+  days: DayMeals[];
+  withinTolerance: boolean;
+}
+
+// Allergies and intolerances, plus free-text dislikes matched against food names
+export interface FoodExclusions {
+  allergens: Allergen[];
+  dislikedFoods: string[];
+}
+
+export interface ExclusionViolation {
+  day: string;
+  meal: MealType;
+  foodId: string;
+  reason: string;
+}
+
+export const NO_EXCLUSIONS: FoodExclusions = { allergens: [], dislikedFoods: [] };
+
+export const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+  snack: "Snack",
+};
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// Share of the daily targets that each meal should cover
+const MEAL_SHARES: Record<MealType, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.3,
+  snack: 0.1,
+};
+
+// Portions of these roles are solved for; fixed roles are always one serving.
+const MEAL_SLOTS: Record<MealType, { solved: FoodRole[]; fixed: FoodRole[] }> = {
+  breakfast: { solved: ["protein", "carb", "fat"], fixed: ["fruit"] },
+  lunch: { solved: ["protein", "carb", "fat"], fixed: ["vegetable"] },
+  dinner: { solved: ["protein", "carb", "fat"], fixed: ["vegetable"] },
+  snack: { solved: ["protein", "fat"], fixed: ["fruit"] },
+};
+
+export const CALORIE_TOLERANCE = 0.1;
+export const MACRO_TOLERANCE = 0.15;
+// Small targets (keto carbs) get an absolute allowance instead of a tiny percentage
+const MIN_MACRO_TOLERANCE_GRAMS = 10;
+
+const SERVING_STEP = 0.25;
+const MAX_SERVINGS = 4;
+// Solved slots rotate through the foods that are densest in their macro
+const ROTATION_POOL_SIZE = 3;
+const SOLVER_PASSES = 60;
+const KETO_MAX_CARBS_PER_SERVING = 12;
+
+const MACRO_KEYS = ["protein", "carbs", "fat"] as const;
+
+// Veg, vegan, keto and paleo each remove foods; non-veg only lifts the
+// vegetarian restriction, so "veg + non-veg" means the user eats both.
+export const isFoodAllowed = (food: FoodItem, dietPreferences: string[]): boolean => {
+  const has = (tag: FoodItem["tags"][number]) => food.tags.includes(tag);
+
+  if (dietPreferences.includes("vegan") && (has("meat") || has("fish") || has("egg") || has("dairy"))) return false;
+  if (dietPreferences.includes("veg") && !dietPreferences.includes("nonveg") && (has("meat") || has("fish") || has("egg"))) {
+    return false;
+  }
+  if (dietPreferences.includes("keto") && (has("grain") || has("added_sugar") || food.carbs > KETO_MAX_CARBS_PER_SERVING)) {
+    return false;
+  }
+  if (dietPreferences.includes("paleo") && (has("grain") || has("legume") || has("dairy") || has("processed"))) return false;
+  return true;
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+
+const matchesDislike = (food: FoodItem, dislike: string): boolean => {
+  const term = normalize(dislike);
+  return term.length > 0 && (normalize(food.name).includes(term) || normalize(food.id).includes(term));
+};
+
+// Why a food is excluded, or null when it is fine to serve
+export const getExclusionReason = (food: FoodItem, exclusions: FoodExclusions): string | null => {
+  const allergen = food.allergens.find(a => exclusions.allergens.includes(a));
+  if (allergen) return `contains ${allergen.replace("_", " ")}`;
+  const dislike = exclusions.dislikedFoods.find(d => matchesDislike(food, d));
+  if (dislike) return `matches disliked food "${dislike.trim()}"`;
+  return null;
+};
+
+// Independent of generation: checks every item that ended up on the plate.
+export const findExclusionViolations = (mealPlan: MealPlan, exclusions: FoodExclusions): ExclusionViolation[] =>
+  mealPlan.days.flatMap(day =>
+    day.meals.flatMap(meal =>
+      meal.items.flatMap(item => {
+        const food = getFood(item.foodId);
+        const reason = food ? getExclusionReason(food, exclusions) : null;
+        return reason ? [{ day: day.day, meal: meal.type, foodId: item.foodId, reason }] : [];
+      })
+    )
+  );
+
+const emptyMacros = (): Macros => ({ calories: 0, protein: 0, carbs: 0, fat: 0 });
+
+export const sumMacros = (items: MealItem[]): Macros =>
+  items.reduce((total, item) => {
+    const food = getFood(item.foodId);
+    if (!food) return total;
+    return {
+      calories: total.calories + food.calories * item.servings,
+      protein: total.protein + food.protein * item.servings,
+      carbs: total.carbs + food.carbs * item.servings,
+      fat: total.fat + food.fat * item.servings,
+    };
+  }, emptyMacros());
+
+const roundMacros = (macros: Macros): Macros => ({
+  calories: Math.round(macros.calories),
+  protein: Math.round(macros.protein),
+  carbs: Math.round(macros.carbs),
+  fat: Math.round(macros.fat),
+});
+
+const targetMacros = (targets: NutritionTargets, share = 1): Macros => ({
+  calories: targets.calories * share,
+  protein: targets.proteinGrams * share,
+  carbs: targets.carbsGrams * share,
+  fat: targets.fatGrams * share,
+});
+
+const macroAllowance = (target: number) => Math.max(target * MACRO_TOLERANCE, MIN_MACRO_TOLERANCE_GRAMS);
+
+export const isWithinTolerance = (actual: Macros, targets: NutritionTargets): boolean => {
+  const target = targetMacros(targets);
+  if (Math.abs(actual.calories - target.calories) > target.calories * CALORIE_TOLERANCE) return false;
+  return MACRO_KEYS.every(key => Math.abs(actual[key] - target[key]) <= macroAllowance(target[key]));
+};
+
+// Squared error of each macro relative to its allowance
+const error = (actual: Macros, target: Macros): number =>
+  ((actual.calories - target.calories) / Math.max(target.calories * CALORIE_TOLERANCE, 1)) ** 2 +
+  MACRO_KEYS.reduce((sum, key) => sum + ((actual[key] - target[key]) / macroAllowance(target[key])) ** 2, 0);
+
+const clampServings = (servings: number) => Math.min(MAX_SERVINGS, Math.max(0, servings));
+
+// Coordinate descent over the solved items' servings towards the macro target.
+const solveServings = (items: MealItem[], solved: Set<MealItem>, target: Macros) => {
+  for (let pass = 0; pass < SOLVER_PASSES; pass++) {
+    items.forEach(item => {
+      if (!solved.has(item)) return;
+      const food = getFood(item.foodId);
+      const actual = sumMacros(items);
+      let numerator = 0;
+      let denominator = 0;
+      MACRO_KEYS.forEach(key => {
+        const weight = 1 / macroAllowance(target[key]) ** 2;
+        numerator += weight * food[key] * (target[key] - actual[key]);
+        denominator += weight * food[key] ** 2;
+      });
+      if (denominator > 0) item.servings = clampServings(item.servings + numerator / denominator);
+    });
+  }
+};
+
+// Round to practical portions, then nudge single portions while that helps.
+const roundServings = (items: MealItem[], solved: Set<MealItem>, target: Macros) => {
+  items.forEach(item => {
+    if (solved.has(item)) item.servings = clampServings(Math.round(item.servings / SERVING_STEP) * SERVING_STEP);
+  });
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (const item of items) {
+      if (!solved.has(item)) continue;
+      for (const step of [SERVING_STEP, -SERVING_STEP]) {
+        const before = error(sumMacros(items), target);
+        const previous = item.servings;
+        item.servings = clampServings(previous + step);
+        if (item.servings !== previous && error(sumMacros(items), target) < before - 1e-9) {
+          improved = true;
+        } else {
+          item.servings = previous;
+        }
+      }
+    }
+  }
+};
+
+const ROLE_MACRO: Partial<Record<FoodRole, (typeof MACRO_KEYS)[number]>> = {
+  protein: "protein",
+  carb: "carbs",
+  fat: "fat",
+};
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+const macroDensity = (food: FoodItem, macro: (typeof MACRO_KEYS)[number]) =>
+  food.calories > 0 ? (food[macro] * KCAL_PER_GRAM[macro]) / food.calories : 0;
+
+const pickFood = (candidates: FoodItem[], role: FoodRole, rotation: number): FoodItem | undefined => {
+  const macro = ROLE_MACRO[role];
+  const pool = macro
+    ? [...candidates].sort((a, b) => macroDensity(b, macro) - macroDensity(a, macro)).slice(0, ROTATION_POOL_SIZE)
+    : candidates;
+  return pool.length > 0 ? pool[rotation % pool.length] : undefined;
+};
+
+const buildMeal = (type: MealType, dayIndex: number, mealIndex: number, foods: FoodItem[], targets: NutritionTargets) => {
+  const forMeal = foods.filter(food => food.meals.includes(type));
+  const items: MealItem[] = [];
+  const solved = new Set<MealItem>();
+
+  MEAL_SLOTS[type].fixed.forEach((role, slot) => {
+    const food = pickFood(forMeal.filter(f => f.role === role), role, dayIndex + mealIndex + slot);
+    if (food) items.push({ foodId: food.id, servings: 1 });
+  });
+  MEAL_SLOTS[type].solved.forEach((role, slot) => {
+    const food = pickFood(forMeal.filter(f => f.role === role), role, dayIndex + mealIndex + slot);
+    if (!food) return;
+    const item = { foodId: food.id, servings: 1 };
+    items.push(item);
+    solved.add(item);
+  });
+
+  solveServings(items, solved, targetMacros(targets, MEAL_SHARES[type]));
+  return { items, solved };
+};
+
+// Deterministic: the same preferences and targets always give the same week.
+// Throws if the finished plan still contains an excluded food.
+export const generateMealPlan = (
+  targets: NutritionTargets,
+  dietPreferences: string[],
+  exclusions: FoodExclusions = NO_EXCLUSIONS
+): MealPlan => {
+  const foods = FOOD_DATABASE.filter(food => isFoodAllowed(food, dietPreferences) && !getExclusionReason(food, exclusions));
+  const mealTypes = Object.keys(MEAL_SHARES) as MealType[];
+
+  const days = DAYS.map((day, dayIndex) => {
+    const built = mealTypes.map((type, mealIndex) => ({ type, ...buildMeal(type, dayIndex, mealIndex, foods, targets) }));
+
+    // Meals are solved one by one; finish with a pass over the whole day so the
+    // daily totals land on target.
+    const allItems = built.flatMap(meal => meal.items);
+    const allSolved = new Set(built.flatMap(meal => [...meal.solved]));
+    const dayTarget = targetMacros(targets);
+    solveServings(allItems, allSolved, dayTarget);
+    roundServings(allItems, allSolved, dayTarget);
+
+    const meals: Meal[] = built.map(meal => ({
+      type: meal.type,
+      items: meal.items.filter(item => item.servings > 0).map(item => ({ ...item })),
+      totals: roundMacros(sumMacros(meal.items)),
+    }));
+    const totals = sumMacros(allItems);
+
+    return {
+      day,
+      meals,
+      totals: roundMacros(totals),
+      withinTolerance: isWithinTolerance(totals, targets),
+    };
+  });
+
+  const mealPlan = { days, withinTolerance: days.every(day => day.withinTolerance) };
+
+  const violations = findExclusionViolations(mealPlan, exclusions);
+  if (violations.length > 0) {
+    const [first] = violations;
+    throw new Error(`Meal plan rejected: ${getFood(first.foodId)?.name ?? first.foodId} on ${first.day} ${first.reason}`);
+  }
+
+  return mealPlan;
+};
+
+export const formatMealItem = (item: MealItem): string => {
+  const food = getFood(item.foodId);
+  if (!food) return item.foodId;
+  return `${food.name} (${item.servings === 1 ? "" : `${item.servings} x `}${food.serving})`;
+};
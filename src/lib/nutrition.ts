@@ -0,0 +1,98 @@
+import type { ActivityLevel, Gender, Goal } from "./planEngine";
+
+export type BmrMethod = "mifflin_st_jeor" | "katch_mcardle";
+
+export interface NutritionInput {
+  age: number;
+  gender: Gender;
+  height: number;
+  weight: number;
+  activityLevel: ActivityLevel;
+  goal: Goal;
+  dietPreferences: string[];
+  bodyFatPercent?: number | null;
+}
+
+export interface NutritionTargets {
+  method: BmrMethod;
+  bmr: number;
+  tdee: number;
+  calories: number;
+  proteinGrams: number;
+  carbsGrams: number;
+  fatGrams: number;
+}
+
+export const BMR_METHOD_LABELS: Record<BmrMethod, string> = {
+  mifflin_st_jeor: "Mifflin-St Jeor",
+  katch_mcardle: "Katch-McArdle",
+};
+
+const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  low: 1.375,
+  moderate: 1.55,
+  high: 1.725,
+};
+
+const GOAL_CALORIE_ADJUSTMENT: Record<Goal, number> = {
+  lose: -500,
+  gain: 400,
+  maintain: 0,
+};
+
+// Protein in grams per kg of bodyweight
+const PROTEIN_PER_KG: Record<Goal, number> = {
+  lose: 2.0,
+  gain: 1.8,
+  maintain: 1.6,
+};
+
+const FAT_CALORIE_SHARE = 0.25;
+const KETO_CARB_GRAMS = 50;
+const MIN_CALORIES: Record<Gender, number> = { Male: 1500, Female: 1200 };
+
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 };
+
+export const mifflinStJeor = (weight: number, height: number, age: number, gender: Gender): number =>
+  10 * weight + 6.25 * height - 5 * age + (gender === "Male" ? 5 : -161);
+
+export const katchMcArdle = (weight: number, bodyFatPercent: number): number =>
+  370 + 21.6 * weight * (1 - bodyFatPercent / 100);
+
+const hasValidBodyFat = (bodyFatPercent?: number | null): boolean =>
+  typeof bodyFatPercent === "number" && bodyFatPercent > 2 && bodyFatPercent < 70;
+
+// Katch-McArdle is used whenever body fat is known since it works from lean mass;
+// otherwise Mifflin-St Jeor.
+export const calculateNutritionTargets = (input: NutritionInput): NutritionTargets => {
+  const method: BmrMethod = hasValidBodyFat(input.bodyFatPercent) ? "katch_mcardle" : "mifflin_st_jeor";
+  const bmr = method === "katch_mcardle"
+    ? katchMcArdle(input.weight, input.bodyFatPercent)
+    : mifflinStJeor(input.weight, input.height, input.age, input.gender);
+
+  const tdee = bmr * ACTIVITY_MULTIPLIERS[input.activityLevel];
+  const calories = Math.max(MIN_CALORIES[input.gender], tdee + GOAL_CALORIE_ADJUSTMENT[input.goal]);
+
+  const proteinGrams = input.weight * PROTEIN_PER_KG[input.goal];
+  const proteinCalories = proteinGrams * KCAL_PER_GRAM.protein;
+
+  let carbsGrams: number;
+  let fatGrams: number;
+  if (input.dietPreferences.includes("keto")) {
+    carbsGrams = KETO_CARB_GRAMS;
+    fatGrams = (calories - proteinCalories - carbsGrams * KCAL_PER_GRAM.carbs) / KCAL_PER_GRAM.fat;
+  } else {
+    fatGrams = (calories * FAT_CALORIE_SHARE) / KCAL_PER_GRAM.fat;
+    carbsGrams = (calories - proteinCalories - fatGrams * KCAL_PER_GRAM.fat) / KCAL_PER_GRAM.carbs;
+  }
+
+  return {
+    method,
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    calories: Math.round(calories),
+    proteinGrams: Math.round(proteinGrams),
+    carbsGrams: Math.max(0, Math.round(carbsGrams)),
+    fatGrams: Math.max(0, Math.round(fatGrams)),
+  };
+};
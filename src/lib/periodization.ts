@@ -0,0 +1,125 @@
+import {
+  defaultPrescription,
+  formatPrescription,
+  getExercise,
+  type CatalogExercise,
+  type ExerciseOverride,
+  type MuscleGroup,
+  type Prescription,
+} from "./exerciseCatalog";
+import type { Goal, MuscleVolume, WeeklyPlan } from "./planEngine";
+
+export type ProgramPhase = "Base" | "Accumulation" | "Intensification" | "Realization" | "Deload";
+
+export interface ProgramWeek {
+  week: number;
+  phase: ProgramPhase;
+  isDeload: boolean;
+  setsAdjustment: number;
+  repsAdjustment: number;
+  // Working load relative to week 1
+  loadChangePercent: number;
+}
+
+export const MIN_PROGRAM_WEEKS = 4;
+export const MAX_PROGRAM_WEEKS = 12;
+export const DEFAULT_PROGRAM_WEEKS = 8;
+
+// Three loading weeks followed by one deload week
+const BLOCK_LENGTH = 4;
+const BLOCK_PHASES: ProgramPhase[] = ["Accumulation", "Intensification", "Realization"];
+const PHASE_REPS: Partial<Record<ProgramPhase, number>> = { Accumulation: 0, Intensification: -2, Realization: -4 };
+const PHASE_SETS: Partial<Record<ProgramPhase, number>> = { Accumulation: 0, Intensification: 1, Realization: 0 };
+const BLOCK_LOAD_STEP_PERCENT = 7.5;
+const DELOAD_LOAD_FACTOR = 0.6;
+const MIN_REPS = 3;
+
+const BASE_WEEK: ProgramWeek = {
+  week: 1,
+  phase: "Base",
+  isDeload: false,
+  setsAdjustment: 0,
+  repsAdjustment: 0,
+  loadChangePercent: 0,
+};
+
+// Only muscle-gain plans are periodized; every other goal repeats one base week.
+export const buildProgramWeeks = (goal: Goal, requestedWeeks = DEFAULT_PROGRAM_WEEKS): ProgramWeek[] => {
+  if (goal !== "gain") return [BASE_WEEK];
+
+  const totalWeeks = Math.min(MAX_PROGRAM_WEEKS, Math.max(MIN_PROGRAM_WEEKS, Math.round(requestedWeeks)));
+
+  return Array.from({ length: totalWeeks }, (_, index) => {
+    const week = index + 1;
+    const block = Math.floor(index / BLOCK_LENGTH);
+    const blockLoad = block * BLOCK_LOAD_STEP_PERCENT;
+
+    if (week % BLOCK_LENGTH === 0) {
+      return {
+        week,
+        phase: "Deload",
+        isDeload: true,
+        setsAdjustment: -1,
+        repsAdjustment: 0,
+        loadChangePercent: Math.round(((1 + blockLoad / 100) * DELOAD_LOAD_FACTOR - 1) * 100),
+      };
+    }
+
+    const phase = BLOCK_PHASES[Math.min(block, BLOCK_PHASES.length - 1)];
+    return {
+      week,
+      phase,
+      isDeload: false,
+      setsAdjustment: PHASE_SETS[phase] ?? 0,
+      // Reps climb through each block, load steps up at the start of the next one
+      repsAdjustment: (PHASE_REPS[phase] ?? 0) + (index % BLOCK_LENGTH),
+      loadChangePercent: blockLoad,
+    };
+  });
+};
+
+export const applyProgramWeek = (
+  exercise: CatalogExercise,
+  week?: ProgramWeek,
+  override?: ExerciseOverride
+): Prescription => {
+  const base = { ...defaultPrescription(exercise), ...override };
+  if (!week || exercise.category !== "strength") return base;
+
+  return {
+    ...base,
+    sets: Math.max(1, base.sets + week.setsAdjustment),
+    reps: base.reps ? Math.max(MIN_REPS, base.reps + week.repsAdjustment) : null,
+  };
+};
+
+// Load changes only make sense for rep-based lifts with external weight.
+export const getLoadNote = (exercise: CatalogExercise, week?: ProgramWeek): string | null => {
+  if (!week || week.loadChangePercent === 0) return null;
+  if (exercise.category !== "strength" || exercise.equipment.length === 0 || !exercise.defaultReps) return null;
+  return `${week.loadChangePercent > 0 ? "+" : ""}${week.loadChangePercent}% load`;
+};
+
+export const getDayVolume = (day: WeeklyPlan, week?: ProgramWeek): MuscleVolume => {
+  if (!week) return day.volume ?? {};
+
+  const volume: MuscleVolume = {};
+  day.exercises.forEach(id => {
+    const exercise = getExercise(id);
+    if (!exercise || exercise.category === "mobility") return;
+    const { sets } = applyProgramWeek(exercise, week, day.overrides?.[id]);
+    exercise.primaryMuscles.forEach((muscle: MuscleGroup) => {
+      if (muscle === "cardio" || muscle === "full_body") return;
+      volume[muscle] = (volume[muscle] ?? 0) + sets;
+    });
+  });
+  return volume;
+};
+
+export const formatProgramExercise = (idOrName: string, week?: ProgramWeek, override?: ExerciseOverride): string => {
+  const exercise = getExercise(idOrName);
+  if (!exercise) return idOrName;
+
+  const loadNote = getLoadNote(exercise, week);
+  return `${exercise.name} (${formatPrescription(applyProgramWeek(exercise, week, override))}${loadNote ? `, ${loadNote}` : ""})`;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectPersonalRecords,
+  estimateOneRepMax,
+  toPersonalRecordRows,
+  type OneRepMaxFormula,
+  type PersonalRecord,
+} from "./personalRecords";
+
+const set = (id: string, loadKg: number, reps: number) => ({
+  id,
+  exercise_id: "barbell_squat",
+  reps,
+  load_kg: loadKg,
+  duration_seconds: null,
+  distance_meters: null,
+  completed: true,
+});
+
+// Logs one workout on top of `history` and returns the history it leaves behind
+const logWorkout = (
+  history: PersonalRecord[],
+  sets: ReturnType<typeof set>[],
+  formula: OneRepMaxFormula,
+  date: string
+) => {
+  const records = detectPersonalRecords(sets, history, formula);
+  const rows = toPersonalRecordRows("user", `log-${date}`, date, records).map((row, index) => ({
+    id: `${date}-${index}`,
+    created_at: `${date}T12:00:00Z`,
+    distance_meters: null,
+    formula: null,
+    load_kg: null,
+    previous_value: null,
+    workout_set_id: null,
+    ...row,
+  }));
+  return { records, history: [...history, ...rows] };
+};
+
+const estimates = (records: { type: string }[]) => records.filter(record => record.type === "estimated_1rm");
+
+describe("estimateOneRepMax", () => {
+  it("agrees at 10 reps and splits either side of it", () => {
+    expect(estimateOneRepMax(100, 5, "brzycki")).toBeLessThan(estimateOneRepMax(100, 5, "epley"));
+    expect(estimateOneRepMax(100, 11, "brzycki")).toBeGreaterThan(estimateOneRepMax(100, 11, "epley"));
+    expect(estimateOneRepMax(100, 1, "brzycki")).toBe(100);
+  });
+});
+
+describe("detectPersonalRecords", () => {
+  it("records which formula an estimate was made with", () => {
+    const { history } = logWorkout([], [set("a", 100, 5)], "brzycki", "2026-10-01");
+
+    expect(history.find(row => row.record_type === "estimated_1rm")?.formula).toBe("brzycki");
+    expect(history.find(row => row.record_type === "max_weight")?.formula).toBeNull();
+  });
+
+  it("doesn't announce a fake record after switching to a formula that estimates higher", () => {
+    const first = logWorkout([], [set("a", 100, 11)], "epley", "2026-10-01");
+    const second = logWorkout(first.history, [set("b", 100, 11)], "brzycki", "2026-10-08");
+
+    // Brzycki's 138.46 kg is the first Brzycki estimate, not a beaten Epley one
+    expect(estimates(second.records)).toEqual([
+      expect.objectContaining({ value: 138.46, formula: "brzycki", previousValue: null }),
+    ]);
+    expect(second.records.filter(record => record.previousValue !== null)).toEqual([]);
+  });
+
+  it("still finds records after switching to a formula that estimates lower", () => {
+    const first = logWorkout([], [set("a", 100, 5)], "epley", "2026-10-01");
+    const second = logWorkout(first.history, [set("b", 100, 5)], "brzycki", "2026-10-08");
+    // 102.5 kg x 5 is 115.31 by Brzycki: below the old Epley 116.67, above the Brzycki 112.5
+    const third = logWorkout(second.history, [set("c", 102.5, 5)], "brzycki", "2026-10-15");
+
+    expect(estimates(third.records)).toEqual([
+      expect.objectContaining({ value: 115.31, formula: "brzycki", previousValue: 112.5 }),
+    ]);
+  });
+
+  it("compares against the old formula's estimates after switching back", () => {
+    const first = logWorkout([], [set("a", 100, 5)], "epley", "2026-10-01");
+    const second = logWorkout(first.history, [set("b", 110, 5)], "brzycki", "2026-10-08");
+    const third = logWorkout(second.history, [set("c", 102.5, 5)], "epley", "2026-10-15");
+
+    expect(estimates(third.records)).toEqual([
+      expect.objectContaining({ value: 119.58, formula: "epley", previousValue: 116.67 }),
+    ]);
+  });
+
+  it("treats estimates saved without a formula as Epley", () => {
+    const { history } = logWorkout([], [set("a", 100, 5)], "epley", "2026-10-01");
+    const legacy = history.map(row => ({ ...row, formula: null }));
+
+    expect(estimates(detectPersonalRecords([set("b", 100, 5)], legacy, "epley"))).toEqual([]);
+  });
+});
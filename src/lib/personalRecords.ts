@@ -0,0 +1,185 @@
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { getExerciseName } from "./exerciseCatalog";
+import { formatWeight, type UnitSystem } from "./units";
+import { formatDuration, type WorkoutSet } from "./workoutSets";
+
+export type PersonalRecord = Tables<"personal_records">;
+
+export type RecordType = "max_weight" | "reps_at_weight" | "estimated_1rm" | "longest_duration" | "fastest_distance";
+
+export type OneRepMaxFormula = "epley" | "brzycki";
+
+export const ONE_REP_MAX_FORMULA_OPTIONS: { id: OneRepMaxFormula; label: string }[] = [
+  { id: "epley", label: "Epley" },
+  { id: "brzycki", label: "Brzycki" },
+];
+
+export const toOneRepMaxFormula = (value: string | null | undefined): OneRepMaxFormula =>
+  value === "brzycki" ? "brzycki" : "epley";
+
+export const RECORD_TYPE_LABELS: Record<RecordType, string> = {
+  max_weight: "Heaviest weight",
+  reps_at_weight: "Most reps at weight",
+  estimated_1rm: "Estimated 1RM",
+  longest_duration: "Longest duration",
+  fastest_distance: "Fastest time",
+};
+
+// A best achieved by one set, before it is compared against history
+export interface RecordCandidate {
+  exerciseId: string;
+  type: RecordType;
+  value: number;
+  loadKg: number | null;
+  distanceMeters: number | null;
+  // Set on estimated 1RMs only; estimates from different formulas aren't compared
+  formula: OneRepMaxFormula | null;
+  setId: string;
+}
+
+export interface NewRecord extends RecordCandidate {
+  // Null when this is the first result for the exercise
+  previousValue: number | null;
+}
+
+// Both formulas drift badly past ~12 reps, so higher-rep sets don't count
+const MAX_REPS_FOR_1RM = 12;
+
+export const estimateOneRepMax = (loadKg: number, reps: number, formula: OneRepMaxFormula = "epley"): number => {
+  if (reps <= 1) return loadKg;
+  return formula === "brzycki" ? (loadKg * 36) / (37 - reps) : loadKg * (1 + reps / 30);
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+type RecordableSet = Pick<
+  WorkoutSet,
+  "id" | "exercise_id" | "reps" | "load_kg" | "duration_seconds" | "distance_meters" | "completed"
+>;
+
+export const getRecordCandidates = (set: RecordableSet, formula: OneRepMaxFormula = "epley"): RecordCandidate[] => {
+  if (!set.completed) return [];
+
+  const base = { exerciseId: set.exercise_id, loadKg: null, distanceMeters: null, formula: null, setId: set.id };
+  const candidates: RecordCandidate[] = [];
+
+  if (set.distance_meters && set.duration_seconds) {
+    candidates.push({ ...base, type: "fastest_distance", value: set.duration_seconds, distanceMeters: set.distance_meters });
+  } else if (set.duration_seconds) {
+    candidates.push({ ...base, type: "longest_duration", value: set.duration_seconds });
+  }
+
+  if (set.load_kg && set.reps) {
+    const loadKg = round(set.load_kg);
+    candidates.push({ ...base, type: "max_weight", value: loadKg });
+    candidates.push({ ...base, type: "reps_at_weight", value: set.reps, loadKg });
+    if (set.reps <= MAX_REPS_FOR_1RM) {
+      candidates.push({
+        ...base,
+        type: "estimated_1rm",
+        value: round(estimateOneRepMax(loadKg, set.reps, formula)),
+        formula,
+      });
+    }
+  }
+
+  return candidates;
+};
+
+type RecordKeyFields = "exerciseId" | "type" | "loadKg" | "distanceMeters" | "formula";
+
+const recordKey = (record: Pick<RecordCandidate, RecordKeyFields>) =>
+  [record.exerciseId, record.type, record.loadKg ?? "", record.distanceMeters ?? "", record.formula ?? ""].join("|");
+
+const isBetter = (type: RecordType, value: number, best: number) =>
+  type === "fastest_distance" ? value < best : value > best;
+
+const bestByKey = (candidates: Pick<RecordCandidate, RecordKeyFields | "value">[]) => {
+  const bests = new Map<string, number>();
+  candidates.forEach(candidate => {
+    const key = recordKey(candidate);
+    const best = bests.get(key);
+    if (best === undefined || isBetter(candidate.type, candidate.value, best)) bests.set(key, candidate.value);
+  });
+  return bests;
+};
+
+// Records in `sets` that beat everything in `history`; only the best set per record counts.
+export const detectPersonalRecords = (
+  sets: RecordableSet[],
+  history: PersonalRecord[],
+  formula: OneRepMaxFormula = "epley"
+): NewRecord[] => {
+  const previousBests = bestByKey(
+    history.map(record => ({
+      exerciseId: record.exercise_id,
+      type: record.record_type as RecordType,
+      loadKg: record.load_kg,
+      distanceMeters: record.distance_meters,
+      // Estimates saved before the formula was recorded are Epley
+      formula: record.record_type === "estimated_1rm" ? toOneRepMaxFormula(record.formula) : null,
+      value: record.value,
+    }))
+  );
+
+  const bestInWorkout = new Map<string, RecordCandidate>();
+  sets.flatMap(set => getRecordCandidates(set, formula)).forEach(candidate => {
+    const key = recordKey(candidate);
+    const current = bestInWorkout.get(key);
+    if (!current || isBetter(candidate.type, candidate.value, current.value)) bestInWorkout.set(key, candidate);
+  });
+
+  return [...bestInWorkout.entries()].flatMap(([key, candidate]) => {
+    const previous = previousBests.get(key);
+    if (previous !== undefined && !isBetter(candidate.type, candidate.value, previous)) return [];
+    return [{ ...candidate, previousValue: previous ?? null }];
+  });
+};
+
+export const toPersonalRecordRows = (
+  userId: string,
+  workoutLogId: string,
+  achievedOn: string,
+  records: NewRecord[]
+): TablesInsert<"personal_records">[] =>
+  records.map(record => ({
+    user_id: userId,
+    exercise_id: record.exerciseId,
+    record_type: record.type,
+    value: record.value,
+    load_kg: record.loadKg,
+    distance_meters: record.distanceMeters,
+    formula: record.formula,
+    previous_value: record.previousValue,
+    workout_log_id: workoutLogId,
+    workout_set_id: record.setId,
+    achieved_on: achievedOn,
+  }));
+
+export const formatRecordValue = (
+  record: Pick<PersonalRecord, "record_type" | "value" | "load_kg" | "distance_meters">,
+  value: number,
+  unitSystem: UnitSystem
+): string => {
+  switch (record.record_type as RecordType) {
+    case "max_weight":
+    case "estimated_1rm":
+      return formatWeight(value, unitSystem);
+    case "reps_at_weight":
+      return `${value} reps at ${formatWeight(record.load_kg, unitSystem)}`;
+    case "longest_duration":
+      return formatDuration(value);
+    case "fastest_distance":
+      return `${record.distance_meters} m in ${formatDuration(value)}`;
+    default:
+      return String(value);
+  }
+};
+
+// "Goblet Squats: Heaviest weight 30 kg"
+export const describeRecord = (record: NewRecord, unitSystem: UnitSystem): string =>
+  `${getExerciseName(record.exerciseId)}: ${RECORD_TYPE_LABELS[record.type]} ${formatRecordValue(
+    { record_type: record.type, value: record.value, load_kg: record.loadKg, distance_meters: record.distanceMeters },
+    record.value,
+    unitSystem
+  )}`;
@@ -0,0 +1,103 @@
+import { getExercise, getExerciseName, type ExerciseOverride } from "./exerciseCatalog";
+import { applyProgramWeek } from "./periodization";
+import type { MuscleVolume, WeeklyPlan } from "./planEngine";
+
+export type PlanChangeKind = "move_day" | "swap_exercise" | "edit_prescription";
+
+export interface PlanChange {
+  at: string;
+  kind: PlanChangeKind;
+  description: string;
+}
+
+export interface PlanEdit {
+  weeklyPlan: WeeklyPlan[];
+  change: PlanChange;
+}
+
+// Applied to the latest weekly plan, so edits made back to back build on each other
+export type PlanEditor = (weeklyPlan: WeeklyPlan[]) => PlanEdit | null;
+
+const change = (kind: PlanChangeKind, description: string): PlanChange => ({
+  at: new Date().toISOString(),
+  kind,
+  description,
+});
+
+const recomputeVolume = (day: WeeklyPlan): WeeklyPlan => {
+  const volume: MuscleVolume = {};
+  day.exercises.forEach(id => {
+    const exercise = getExercise(id);
+    if (!exercise || exercise.category === "mobility") return;
+    const { sets } = applyProgramWeek(exercise, undefined, day.overrides?.[id]);
+    exercise.primaryMuscles.forEach(muscle => {
+      if (muscle === "cardio" || muscle === "full_body") return;
+      volume[muscle] = (volume[muscle] ?? 0) + sets;
+    });
+  });
+  return { ...day, volume };
+};
+
+// Day names stay in place; the two sessions trade days.
+export const swapDays = (weeklyPlan: WeeklyPlan[], from: number, to: number): PlanEdit | null => {
+  const a = weeklyPlan[from];
+  const b = weeklyPlan[to];
+  if (from === to || !a || !b) return null;
+
+  return {
+    weeklyPlan: weeklyPlan.map((day, index) => {
+      if (index === from) return { ...b, day: a.day };
+      if (index === to) return { ...a, day: b.day };
+      return day;
+    }),
+    change: change("move_day", `Swapped ${a.day} (${a.focus}) with ${b.day} (${b.focus})`),
+  };
+};
+
+export const swapExercise = (
+  weeklyPlan: WeeklyPlan[],
+  dayIndex: number,
+  exerciseId: string,
+  replacementId: string
+): PlanEdit | null => {
+  const day = weeklyPlan[dayIndex];
+  if (!day || exerciseId === replacementId || !day.exercises.includes(exerciseId)) return null;
+
+  const { [exerciseId]: _removed, ...overrides } = day.overrides ?? {};
+  const updated = recomputeVolume({
+    ...day,
+    exercises: day.exercises.map(id => (id === exerciseId ? replacementId : id)),
+    overrides,
+  });
+
+  return {
+    weeklyPlan: weeklyPlan.map((d, index) => (index === dayIndex ? updated : d)),
+    change: change(
+      "swap_exercise",
+      `${day.day}: replaced ${getExerciseName(exerciseId)} with ${getExerciseName(replacementId)}`
+    ),
+  };
+};
+
+export const editPrescription = (
+  weeklyPlan: WeeklyPlan[],
+  dayIndex: number,
+  exerciseId: string,
+  override: ExerciseOverride
+): PlanEdit | null => {
+  const day = weeklyPlan[dayIndex];
+  const exercise = getExercise(exerciseId);
+  if (!day || !exercise || !day.exercises.includes(exerciseId)) return null;
+
+  const merged = { ...day.overrides?.[exerciseId], ...override };
+  const updated = recomputeVolume({ ...day, overrides: { ...day.overrides, [exerciseId]: merged } });
+  const { sets, reps } = applyProgramWeek(exercise, undefined, merged);
+
+  return {
+    weeklyPlan: weeklyPlan.map((d, index) => (index === dayIndex ? updated : d)),
+    change: change(
+      "edit_prescription",
+      `${day.day}: ${exercise.name} set to ${sets} sets${reps ? ` x ${reps} reps` : ""}`
+    ),
+  };
+};
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  DIET_OPTIONS,
+  generatePlan,
+  generateWeeklyPlan,
+  type ActivityLevel,
+  type FitnessPlan,
+  type Goal,
+  type PlanInput,
+} from "./planEngine";
+import {
+  EQUIPMENT_OPTIONS,
+  HEALTH_CONDITION_OPTIONS,
+  getExercise,
+  hasRequiredEquipment,
+  isContraindicated,
+} from "./exerciseCatalog";
+import { isFoodAllowed } from "./mealPlanner";
+import { getFood } from "./foodDatabase";
+
+const GOALS: Goal[] = ["lose", "gain", "maintain"];
+const ACTIVITY_LEVELS: ActivityLevel[] = ["low", "moderate", "high"];
+
+// No equipment, each item on its own, and a fully equipped gym
+const EQUIPMENT_SETS: { name: string; equipment: string[] }[] = [
+  { name: "none", equipment: [] },
+  ...EQUIPMENT_OPTIONS.map(option => ({ name: option.id, equipment: [option.id] })),
+  { name: "everything", equipment: EQUIPMENT_OPTIONS.map(option => option.id) },
+];
+
+const COMBINATIONS = GOALS.flatMap(goal =>
+  ACTIVITY_LEVELS.flatMap(activityLevel =>
+    EQUIPMENT_SETS.map(({ name, equipment }) => ({ goal, activityLevel, name, equipment }))
+  )
+);
+
+const REST_DAYS: Record<ActivityLevel, number> = { low: 3, moderate: 2, high: 1 };
+
+const baseInput = (overrides: Partial<PlanInput>): PlanInput => ({
+  age: 30,
+  gender: "Female",
+  height: 168,
+  weight: 65,
+  activityLevel: "moderate",
+  goal: "maintain",
+  dietPreferences: ["nonveg"],
+  equipment: [],
+  ...overrides,
+});
+
+const planExerciseIds = (plan: FitnessPlan): string[] => [
+  ...plan.exercises,
+  ...plan.weeklyPlan.flatMap(day => day.exercises),
+];
+
+describe("generateWeeklyPlan", () => {
+  it.each(COMBINATIONS)(
+    "plans every day for $goal / $activityLevel / $name",
+    ({ goal, activityLevel, equipment }) => {
+      const { weeklyPlan } = generatePlan(baseInput({ goal, activityLevel, equipment }));
+
+      expect(weeklyPlan.map(day => day.day)).toEqual([
+        "Monday",
+        "Tuesday",
+        "Wednesday",
+        "Thursday",
+        "Friday",
+        "Saturday",
+        "Sunday",
+      ]);
+      weeklyPlan.forEach(day => {
+        expect(day.exercises.length, `${day.day} has exercises`).toBeGreaterThan(0);
+        day.exercises.forEach(id => {
+          const exercise = getExercise(id);
+          expect(exercise, `${id} is in the catalog`).toBeDefined();
+          expect(hasRequiredEquipment(exercise, equipment), `${id} fits the equipment`).toBe(true);
+        });
+      });
+
+      // Rest days close out the week; a high-activity plan may still schedule active recovery before them
+      weeklyPlan.slice(7 - REST_DAYS[activityLevel]).forEach(day => {
+        expect(["Rest Day", "Active Recovery"]).toContain(day.focus);
+      });
+    }
+  );
+
+  it("is deterministic", () => {
+    const input = baseInput({ goal: "gain", activityLevel: "high", equipment: ["dumbbells", "bench"] });
+    expect(generatePlan(input)).toEqual(generatePlan(input));
+  });
+
+  it("does not train the same strength muscles on consecutive days", () => {
+    const weeklyPlan = generateWeeklyPlan("gain", [], "high", EQUIPMENT_OPTIONS.map(option => option.id));
+    weeklyPlan.slice(1).forEach((day, index) => {
+      const trained = (ids: string[]) =>
+        ids
+          .map(getExercise)
+          .filter(exercise => exercise.category === "strength")
+          .flatMap(exercise => exercise.primaryMuscles)
+          .filter(muscle => muscle !== "full_body");
+      const previous = new Set(trained(weeklyPlan[index].exercises));
+      expect(trained(day.exercises).filter(muscle => previous.has(muscle)), day.day).toEqual([]);
+    });
+  });
+});
+
+describe("health conditions", () => {
+  const cases = HEALTH_CONDITION_OPTIONS.flatMap(condition =>
+    GOALS.flatMap(goal =>
+      [EQUIPMENT_SETS[0], EQUIPMENT_SETS[EQUIPMENT_SETS.length - 1]].map(({ name, equipment }) => ({
+        condition: condition.id,
+        goal,
+        name,
+        equipment,
+      }))
+    )
+  );
+
+  it.each(cases)(
+    "swaps out exercises unsafe for $condition ($goal / $name)",
+    ({ condition, goal, equipment }) => {
+      const plan = generatePlan(baseInput({ goal, equipment, healthConditions: [condition] }));
+
+      planExerciseIds(plan).forEach(id => {
+        expect(isContraindicated(getExercise(id), [condition]), `${id} is safe`).toBe(false);
+      });
+      plan.substitutions.forEach(substitution => {
+        expect(substitution.conditions).toContain(condition);
+        if (substitution.substitute) {
+          expect(isContraindicated(getExercise(substitution.substitute), [condition])).toBe(false);
+        }
+      });
+
+      // Everything the unrestricted plan would pick and the condition rules out is accounted for
+      const unrestricted = generatePlan(baseInput({ goal, equipment })).exercises;
+      const unsafe = unrestricted.filter(id => isContraindicated(getExercise(id), [condition]));
+      unsafe.forEach(id => {
+        expect(plan.substitutions.map(substitution => substitution.original)).toContain(id);
+      });
+    }
+  );
+});
+
+describe("diet preferences", () => {
+  it.each(DIET_OPTIONS.flatMap(diet => GOALS.map(goal => ({ diet: diet.id, goal }))))(
+    "only serves $diet foods for $goal",
+    ({ diet, goal }) => {
+      const { mealPlan } = generatePlan(baseInput({ goal, dietPreferences: [diet] }));
+
+      expect(mealPlan.days).toHaveLength(7);
+      mealPlan.days.forEach(day =>
+        day.meals.forEach(meal =>
+          meal.items.forEach(item => {
+            expect(isFoodAllowed(getFood(item.foodId), [diet]), `${item.foodId} on ${day.day}`).toBe(true);
+          })
+        )
+      );
+    }
+  );
+});
@@ -0,0 +1,381 @@
+import {
+  EQUIPMENT_OPTIONS,
+  EXERCISE_CATALOG,
+  HEALTH_CONDITION_OPTIONS,
+  findSubstitute,
+  getExercise,
+  hasRequiredEquipment,
+  isContraindicated,
+  type CatalogExercise,
+  type Contraindication,
+  type ExerciseOverride,
+  type Difficulty,
+  type ExerciseCategory,
+  type MuscleGroup,
+} from "./exerciseCatalog";
+import { ALLERGEN_OPTIONS, type Allergen } from "./foodDatabase";
+import { generateMealPlan, type MealPlan } from "./mealPlanner";
+import { calculateNutritionTargets, type NutritionTargets } from "./nutrition";
+import { buildProgramWeeks, type ProgramWeek } from "./periodization";
+
+export type Gender = "Male" | "Female";
+export type ActivityLevel = "low" | "moderate" | "high";
+export type Goal = "lose" | "gain" | "maintain";
+
+export interface PlanInput {
+  age: number;
+  gender: Gender;
+  height: number;
+  weight: number;
+  activityLevel: ActivityLevel;
+  goal: Goal;
+  dietPreferences: string[];
+  equipment: string[];
+  // Mesocycle length for muscle-gain plans
+  programWeeks?: number;
+  bodyFatPercent?: number | null;
+  allergies?: Allergen[];
+  dislikedFoods?: string[];
+  healthConditions?: Contraindication[];
+}
+
+export type MuscleVolume = Partial<Record<MuscleGroup, number>>;
+
+export interface WeeklyPlan {
+  day: string;
+  focus: string;
+  // Exercise catalog ids
+  exercises: string[];
+  duration: string;
+  // Working sets per primary muscle group
+  volume: MuscleVolume;
+  // Sets/reps edited by the user, keyed by exercise id
+  overrides?: Record<string, ExerciseOverride>;
+}
+
+// A contraindicated exercise and what replaced it; null when nothing safe fits.
+export interface ExerciseSubstitution {
+  original: string;
+  substitute: string | null;
+  conditions: Contraindication[];
+}
+
+export interface FitnessPlan {
+  bmi: number;
+  category: string;
+  // Exercise catalog ids
+  exercises: string[];
+  substitutions: ExerciseSubstitution[];
+  nutrition: NutritionTargets;
+  mealPlan: MealPlan;
+  notes: string[];
+  weeklyPlan: WeeklyPlan[];
+  // The weekly split repeats every week; each entry adjusts its sets, reps and load
+  weeks: ProgramWeek[];
+}
+
+export const DIET_OPTIONS = [
+  { id: "veg", label: "Vegetarian" },
+  { id: "nonveg", label: "Non-Vegetarian" },
+  { id: "vegan", label: "Vegan" },
+  { id: "keto", label: "Keto" },
+  { id: "paleo", label: "Paleo" },
+];
+
+const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+const GOAL_EXERCISES: Partial<Record<Goal, string[]>> = {
+  lose: ["burpees", "high_knees", "box_jumps"],
+};
+
+const REST_DAY_EXERCISES = ["light_stretching", "walking", "foam_rolling"];
+
+const EXERCISES_PER_DAY = 4;
+
+interface FocusRule {
+  category: ExerciseCategory;
+  muscles?: MuscleGroup[];
+  maxDifficulty?: Difficulty;
+}
+
+const UPPER_BODY: MuscleGroup[] = ["chest", "back", "shoulders", "biceps", "triceps"];
+const LOWER_BODY: MuscleGroup[] = ["quads", "hamstrings", "glutes", "calves"];
+
+// Which exercises count towards each day label generated below.
+const FOCUS_RULES: Record<string, FocusRule[]> = {
+  "Chest & Triceps": [{ category: "strength", muscles: ["chest", "triceps"] }],
+  "Back & Biceps": [{ category: "strength", muscles: ["back", "biceps"] }],
+  "Legs & Glutes": [{ category: "strength", muscles: LOWER_BODY }],
+  "Shoulders & Core": [{ category: "strength", muscles: ["shoulders", "core"] }],
+  "Full Body": [{ category: "strength" }],
+  "HIIT & Cardio": [{ category: "cardio" }],
+  "Upper Body": [{ category: "strength", muscles: UPPER_BODY }],
+  "Lower Body": [{ category: "strength", muscles: LOWER_BODY }],
+  "Lower Body & Core": [{ category: "strength", muscles: [...LOWER_BODY, "core"] }],
+  "Cardio & Mobility": [{ category: "cardio" }, { category: "mobility" }],
+  "Cardio & Core": [{ category: "cardio" }, { category: "strength", muscles: ["core"] }],
+  "Full Body Circuit": [{ category: "strength" }, { category: "cardio" }],
+  "Flexibility & Mobility": [{ category: "mobility" }],
+  "Active Recovery": [{ category: "mobility" }, { category: "cardio", muscles: ["cardio"], maxDifficulty: "beginner" }],
+};
+
+const DIFFICULTY_RANK: Record<Difficulty, number> = { beginner: 0, intermediate: 1, advanced: 2 };
+
+const matchesFocus = (exercise: CatalogExercise, rules: FocusRule[]) =>
+  rules.some(rule =>
+    rule.category === exercise.category &&
+    (!rule.muscles || exercise.primaryMuscles.every(muscle => rule.muscles.includes(muscle))) &&
+    (!rule.maxDifficulty || DIFFICULTY_RANK[exercise.difficulty] <= DIFFICULTY_RANK[rule.maxDifficulty])
+  );
+
+// Muscles that need a day off after being trained. Cardio and mobility work is
+// not counted, otherwise a HIIT day would block the whole next session.
+const trainedMuscles = (exercises: CatalogExercise[]): Set<MuscleGroup> =>
+  new Set(
+    exercises
+      .filter(exercise => exercise.category === "strength")
+      .flatMap(exercise => exercise.primaryMuscles)
+      .filter(muscle => muscle !== "cardio" && muscle !== "full_body")
+  );
+
+const addVolume = (volume: MuscleVolume, exercise: CatalogExercise) => {
+  exercise.primaryMuscles.forEach(muscle => {
+    if (muscle === "cardio" || muscle === "full_body") return;
+    volume[muscle] = (volume[muscle] ?? 0) + exercise.defaultSets;
+  });
+};
+
+const isAvailable = (id: string, equipment: string[], healthConditions: Contraindication[] = []) => {
+  const exercise = getExercise(id);
+  return !!exercise && hasRequiredEquipment(exercise, equipment) && !isContraindicated(exercise, healthConditions);
+};
+
+export const calculateBMI = (weight: number, height: number): number => {
+  const heightM = height / 100;
+  return parseFloat((weight / (heightM * heightM)).toFixed(2));
+};
+
+export const getBMICategory = (bmi: number): string => {
+  if (bmi < 18.5) return "Underweight";
+  if (bmi < 25) return "Healthy";
+  if (bmi < 30) return "Overweight";
+  return "Obese";
+};
+
+export const generateWeeklyPlan = (
+  goal: Goal,
+  exercises: string[],
+  activityLevel: ActivityLevel,
+  equipment: string[] = [],
+  healthConditions: Contraindication[] = []
+): WeeklyPlan[] => {
+  const restDays = activityLevel === "low" ? 3 : activityLevel === "moderate" ? 2 : 1;
+  const workoutDays = 7 - restDays;
+
+  const focusAreas = goal === "gain"
+    ? ["Chest & Triceps", "Back & Biceps", "Legs & Glutes", "Shoulders & Core", "Full Body", "Active Recovery", "Rest"]
+    : goal === "lose"
+    ? ["HIIT & Cardio", "Upper Body", "Lower Body & Core", "Cardio & Mobility", "Full Body Circuit", "Active Recovery", "Rest"]
+    : ["Upper Body", "Lower Body", "Cardio & Core", "Full Body", "Flexibility & Mobility", "Active Recovery", "Rest"];
+
+  const durations = goal === "gain"
+    ? ["45-60 mins", "45-60 mins", "50-60 mins", "40-50 mins", "45-55 mins", "30 mins", "Rest"]
+    : goal === "lose"
+    ? ["30-40 mins", "40-50 mins", "40-50 mins", "35-45 mins", "35-45 mins", "20-30 mins", "Rest"]
+    : ["40-50 mins", "40-50 mins", "30-40 mins", "40-50 mins", "30 mins", "20-30 mins", "Rest"];
+
+  // The plan's own exercises come first; any other catalog exercise the user
+  // has equipment for can fill a focus the plan list does not cover.
+  const preferred = new Set(exercises);
+  const pool = [
+    ...exercises.map(getExercise).filter((exercise): exercise is CatalogExercise => !!exercise),
+    ...EXERCISE_CATALOG.filter(exercise =>
+      !preferred.has(exercise.id) &&
+      hasRequiredEquipment(exercise, equipment) &&
+      !isContraindicated(exercise, healthConditions)
+    ),
+  ];
+
+  const weeklyVolume: MuscleVolume = {};
+  const usedThisWeek = new Set<string>();
+  let previousDay: CatalogExercise[] = [];
+
+  const pickExercises = (rules: FocusRule[], reserved: MuscleGroup[] = []): CatalogExercise[] => {
+    const blocked = new Set([...trainedMuscles(previousDay), ...reserved]);
+    const picked: CatalogExercise[] = [];
+
+    while (picked.length < EXERCISES_PER_DAY) {
+      const candidates = pool.filter(exercise =>
+        !picked.includes(exercise) &&
+        matchesFocus(exercise, rules) &&
+        !(exercise.category === "strength" && exercise.primaryMuscles.some(muscle => blocked.has(muscle)))
+      );
+      if (candidates.length === 0) break;
+
+      // Lowest score wins; ties keep pool order so the result is deterministic.
+      const score = (exercise: CatalogExercise) =>
+        (preferred.has(exercise.id) ? 0 : 1000) +
+        (usedThisWeek.has(exercise.id) ? 100 : 0) +
+        exercise.primaryMuscles.reduce((sum, muscle) => sum + (weeklyVolume[muscle] ?? 0), 0);
+      const next = candidates.reduce((best, exercise) => (score(exercise) < score(best) ? exercise : best));
+
+      picked.push(next);
+      usedThisWeek.add(next.id);
+      addVolume(weeklyVolume, next);
+    }
+
+    return picked;
+  };
+
+  return DAYS.map((day, index) => {
+    if (index >= workoutDays) {
+      previousDay = [];
+      return {
+        day,
+        focus: index === 6 ? "Rest Day" : "Active Recovery",
+        exercises: REST_DAY_EXERCISES.filter(id => isAvailable(id, equipment, healthConditions)),
+        duration: index === 6 ? "Rest" : "20-30 mins",
+        volume: {},
+      };
+    }
+
+    let focus = focusAreas[index % focusAreas.length];
+    let dayExercises = pickExercises(FOCUS_RULES[focus] ?? FOCUS_RULES["Full Body"]);
+
+    // Nothing available for this focus (e.g. a back day without a pull-up bar).
+    // Leave tomorrow's muscles alone so the next day keeps its own focus.
+    if (dayExercises.length === 0) {
+      const nextFocus = index + 1 < workoutDays ? focusAreas[(index + 1) % focusAreas.length] : null;
+      const reserved = (FOCUS_RULES[nextFocus] ?? []).flatMap(rule => rule.muscles ?? []);
+      focus = "Full Body";
+      dayExercises = pickExercises(FOCUS_RULES["Full Body"], reserved);
+    }
+
+    const volume: MuscleVolume = {};
+    dayExercises.forEach(exercise => addVolume(volume, exercise));
+    previousDay = dayExercises;
+
+    return {
+      day,
+      focus,
+      exercises: dayExercises.map(exercise => exercise.id),
+      duration: durations[index % durations.length],
+      volume,
+    };
+  });
+};
+
+const selectExercises = (goal: Goal, selectedEquipment: string[]): string[] => {
+  const exercises: string[] = [];
+
+  // Always include bodyweight exercises as base
+  if (selectedEquipment.length === 0 || selectedEquipment.includes("bodyweight")) {
+    exercises.push(
+      ...EXERCISE_CATALOG
+        .filter(exercise => exercise.equipment.length === 0 && exercise.category === "strength")
+        .map(exercise => exercise.id)
+    );
+  }
+
+  EQUIPMENT_OPTIONS.forEach(option => {
+    if (!selectedEquipment.includes(option.id)) return;
+    exercises.push(
+      ...EXERCISE_CATALOG
+        .filter(exercise => exercise.equipment.includes(option.id) && hasRequiredEquipment(exercise, selectedEquipment))
+        .map(exercise => exercise.id)
+    );
+  });
+
+  // Add goal-specific exercises
+  exercises.push(...(GOAL_EXERCISES[goal] ?? []).filter(id => isAvailable(id, selectedEquipment)));
+
+  return [...new Set(exercises)];
+};
+
+// Swap each contraindicated exercise for its closest safe alternative, or drop it.
+const applyHealthConditions = (
+  exercises: string[],
+  healthConditions: Contraindication[],
+  equipment: string[]
+): { exercises: string[]; substitutions: ExerciseSubstitution[] } => {
+  if (healthConditions.length === 0) return { exercises, substitutions: [] };
+
+  const safe = new Set<string>();
+  const substitutions: ExerciseSubstitution[] = [];
+
+  exercises.forEach(id => {
+    const exercise = getExercise(id);
+    if (!exercise || !isContraindicated(exercise, healthConditions)) {
+      safe.add(id);
+      return;
+    }
+
+    const substitute = findSubstitute(exercise, healthConditions, equipment, new Set([...exercises, ...safe]));
+    if (substitute) safe.add(substitute.id);
+    substitutions.push({
+      original: id,
+      substitute: substitute?.id ?? null,
+      conditions: exercise.contraindications.filter(condition => healthConditions.includes(condition)),
+    });
+  });
+
+  return { exercises: [...safe], substitutions };
+};
+
+const describeSubstitution = ({ original, substitute, conditions }: ExerciseSubstitution): string => {
+  const reason = conditions.map(c => HEALTH_CONDITION_OPTIONS.find(o => o.id === c)?.label ?? c).join(", ");
+  const from = getExercise(original)?.name ?? original;
+  return substitute
+    ? `${from} replaced with ${getExercise(substitute)?.name ?? substitute} (${reason})`
+    : `${from} removed (${reason})`;
+};
+
+// Pure and deterministic: the same input always yields the same plan, so it can
+// be shared between the planner UI, edge functions and scripts.
+export const generatePlan = (input: PlanInput): FitnessPlan => {
+  const bmi = calculateBMI(input.weight, input.height);
+  const category = getBMICategory(bmi);
+  const healthConditions = input.healthConditions ?? [];
+  const { exercises, substitutions } = applyHealthConditions(
+    selectExercises(input.goal, input.equipment),
+    healthConditions,
+    input.equipment
+  );
+  const weeklyPlan = generateWeeklyPlan(input.goal, exercises, input.activityLevel, input.equipment, healthConditions);
+  const weeks = buildProgramWeeks(input.goal, input.programWeeks);
+  const nutrition = calculateNutritionTargets(input);
+  const allergies = input.allergies ?? [];
+  const dislikedFoods = (input.dislikedFoods ?? []).map(food => food.trim()).filter(Boolean);
+  const mealPlan = generateMealPlan(nutrition, input.dietPreferences, { allergens: allergies, dislikedFoods });
+
+  const notes: string[] = [
+    `Your BMI: ${bmi} (${category})`,
+    input.goal === "lose" ? "Focus on calorie deficit and daily step target (8k-10k)" :
+    input.goal === "gain" ? "Eat in a ~400 kcal/day surplus; focus on protein-rich meals" :
+    "Maintain balance with consistent training & nutrition",
+    ...(input.goal === "gain" ? ["Progressive overload: prioritise compound movements and rest 2-3 mins between sets"] : []),
+    ...(weeks.length > 1 ? [`${weeks.length}-week program: reps and load build each week, with a lighter deload every 4th week`] : []),
+    ...(healthConditions.length > 0 ? ["Health conditions were taken into account; check with your doctor before starting a new program"] : []),
+    ...substitutions.map(describeSubstitution),
+    `Daily targets: ${nutrition.calories} kcal, ${nutrition.proteinGrams}g protein, ${nutrition.carbsGrams}g carbs, ${nutrition.fatGrams}g fat`,
+    ...(mealPlan.withinTolerance ? [] : ["Some days of the meal plan miss the macro targets with the selected diet preferences; consider a supplement or a less restrictive combination"]),
+    "Stay hydrated - drink 2-3 liters of water daily",
+    "Get 7-8 hours of quality sleep for recovery",
+    `Diet preferences: ${input.dietPreferences.map(p => DIET_OPTIONS.find(o => o.id === p)?.label).join(", ")}`,
+    ...(allergies.length > 0 ? [`Allergies & intolerances: ${allergies.map(a => ALLERGEN_OPTIONS.find(o => o.id === a)?.label).join(", ")}`] : []),
+    ...(dislikedFoods.length > 0 ? [`Excluded foods: ${dislikedFoods.join(", ")}`] : []),
+    `Equipment: ${input.equipment.length > 0 ? input.equipment.map(e => EQUIPMENT_OPTIONS.find(o => o.id === e)?.label).join(", ") : "Bodyweight only"}`,
+  ];
+
+  return {
+    bmi,
+    category,
+    exercises: exercises.slice(0, 12),
+    substitutions,
+    nutrition,
+    mealPlan,
+    notes,
+    weeklyPlan,
+    weeks,
+  };
+};
@@ -0,0 +1,65 @@
+import type { Json } from "@/integrations/supabase/types";
+import type { FitnessPlan, WeeklyPlan } from "./planEngine";
+import type { DayMeals, MealPlan } from "./mealPlanner";
+import type { ProgramWeek } from "./periodization";
+import type { PlanChange } from "./planEditing";
+
+// Shape of `fitness_plans.exercises`. Rows saved before periodization have no
+// `weeks`, and the oldest rows hold a plain array of exercise strings.
+export interface SavedPlanExercises {
+  list: string[];
+  weeklyPlan: WeeklyPlan[];
+  weeks: ProgramWeek[];
+}
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+export const serializeSavedPlanExercises = (saved: SavedPlanExercises): Json => JSON.parse(JSON.stringify(saved));
+
+export const serializePlanExercises = (plan: FitnessPlan): Json =>
+  serializeSavedPlanExercises({ list: plan.exercises, weeklyPlan: plan.weeklyPlan, weeks: plan.weeks });
+
+export const parseSavedPlanExercises = (data: unknown): SavedPlanExercises => {
+  if (Array.isArray(data)) {
+    return { list: data.filter(item => typeof item === "string"), weeklyPlan: [], weeks: [] };
+  }
+  if (!data || typeof data !== "object") {
+    return { list: [], weeklyPlan: [], weeks: [] };
+  }
+
+  const saved = data as Record<string, unknown>;
+  return {
+    list: asArray<string>(saved.list),
+    weeklyPlan: asArray<WeeklyPlan>(saved.weeklyPlan).map(day => ({ ...day, volume: day.volume ?? {} })),
+    weeks: asArray<ProgramWeek>(saved.weeks),
+  };
+};
+
+// Shape of `fitness_plans.diet_plan`. Rows saved before the meal planner hold a
+// plain array of meal strings, which are kept as `lines`.
+export interface SavedDietPlan {
+  mealPlan: MealPlan | null;
+  lines: string[];
+}
+
+export const serializeMealPlan = (plan: FitnessPlan): Json => JSON.parse(JSON.stringify(plan.mealPlan));
+
+export const parseSavedDietPlan = (data: unknown): SavedDietPlan => {
+  if (Array.isArray(data)) {
+    return { mealPlan: null, lines: data.filter(item => typeof item === "string") };
+  }
+  if (!data || typeof data !== "object" || !Array.isArray((data as Record<string, unknown>).days)) {
+    return { mealPlan: null, lines: [] };
+  }
+
+  const saved = data as Record<string, unknown>;
+  return {
+    mealPlan: { days: asArray<DayMeals>(saved.days), withinTolerance: saved.withinTolerance !== false },
+    lines: [],
+  };
+};
+
+export const serializeChangeHistory = (changes: PlanChange[]): Json => JSON.parse(JSON.stringify(changes));
+
+export const parseChangeHistory = (data: unknown): PlanChange[] =>
+  asArray<PlanChange>(data).filter(entry => entry && typeof entry.description === "string");
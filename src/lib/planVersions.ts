@@ -0,0 +1,173 @@
+import type { Json } from "@/integrations/supabase/types";
+import { formatPrescription, getExercise, getExerciseName } from "./exerciseCatalog";
+import { getFoodName } from "./foodDatabase";
+import type { NutritionTargets } from "./nutrition";
+import { applyProgramWeek } from "./periodization";
+import type { WeeklyPlan } from "./planEngine";
+import { parseSavedDietPlan, parseSavedPlanExercises } from "./planStorage";
+import { formatWeight, type UnitSystem } from "./units";
+
+// The columns of a saved plan that versioning and diffing look at
+export interface PlanVersion {
+  id: string;
+  lineage_id: string;
+  version: number;
+  parent_plan_id: string | null;
+  created_at: string;
+  bmi: number | null;
+  bmi_category: string | null;
+  goal: string | null;
+  weight: number | null;
+  activity_level: string | null;
+  diet_preferences: string[] | null;
+  exercises: Json | null;
+  diet_plan: Json | null;
+  nutrition_targets?: Json | null;
+}
+
+export interface PlanLineage<T extends PlanVersion> {
+  lineageId: string;
+  // Newest version first
+  versions: T[];
+}
+
+export interface ValueChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface ScheduleDayDiff {
+  day: string;
+  focus: ValueChange | null;
+  exercises: ListDiff;
+  // Same exercise, different sets/reps
+  prescriptions: ValueChange[];
+}
+
+export interface PlanDiff {
+  summary: ValueChange[];
+  exercises: ListDiff;
+  nutrition: ValueChange[];
+  foods: ListDiff;
+  schedule: ScheduleDayDiff[];
+}
+
+const latestCreatedAt = (versions: PlanVersion[]) =>
+  versions.reduce((latest, plan) => (plan.created_at > latest ? plan.created_at : latest), "");
+
+// Lineages are ordered by their most recent version
+export const groupPlansByLineage = <T extends PlanVersion>(plans: T[]): PlanLineage<T>[] => {
+  const lineages = new Map<string, T[]>();
+  plans.forEach(plan => {
+    lineages.set(plan.lineage_id, [...(lineages.get(plan.lineage_id) ?? []), plan]);
+  });
+
+  return [...lineages.entries()]
+    .map(([lineageId, versions]) => ({ lineageId, versions: [...versions].sort((a, b) => b.version - a.version) }))
+    .sort((a, b) => latestCreatedAt(b.versions).localeCompare(latestCreatedAt(a.versions)));
+};
+
+export const nextVersion = (versions: Pick<PlanVersion, "version">[]): number =>
+  versions.reduce((max, plan) => Math.max(max, plan.version), 0) + 1;
+
+const diffLists = (before: string[], after: string[]): ListDiff => ({
+  added: after.filter(item => !before.includes(item)),
+  removed: before.filter(item => !after.includes(item)),
+});
+
+const unique = (items: string[]) => [...new Set(items)];
+
+const valueChange = (label: string, before: unknown, after: unknown): ValueChange[] => {
+  const format = (value: unknown) => (value === null || value === undefined || value === "" ? "N/A" : String(value));
+  return format(before) === format(after) ? [] : [{ label, before: format(before), after: format(after) }];
+};
+
+const foodNames = (plan: PlanVersion): string[] => {
+  const { mealPlan, lines } = parseSavedDietPlan(plan.diet_plan);
+  if (!mealPlan) return lines;
+  return unique(
+    mealPlan.days.flatMap(day => day.meals.flatMap(meal => meal.items.map(item => getFoodName(item.foodId))))
+  );
+};
+
+const nutritionTargets = (plan: PlanVersion): Partial<NutritionTargets> =>
+  plan.nutrition_targets && typeof plan.nutrition_targets === "object"
+    ? (plan.nutrition_targets as unknown as Partial<NutritionTargets>)
+    : {};
+
+const prescriptionLabel = (day: WeeklyPlan, id: string): string | null => {
+  const exercise = getExercise(id);
+  return exercise ? formatPrescription(applyProgramWeek(exercise, undefined, day.overrides?.[id])) : null;
+};
+
+const diffDay = (before: WeeklyPlan | undefined, after: WeeklyPlan | undefined): ScheduleDayDiff | null => {
+  const beforeIds = before?.exercises ?? [];
+  const afterIds = after?.exercises ?? [];
+  const ids = diffLists(beforeIds, afterIds);
+
+  const prescriptions = before && after
+    ? afterIds
+      .filter(id => beforeIds.includes(id))
+      .flatMap(id => valueChange(getExerciseName(id), prescriptionLabel(before, id), prescriptionLabel(after, id)))
+    : [];
+  const [focus = null] = valueChange("Focus", before?.focus, after?.focus);
+
+  if (!focus && ids.added.length === 0 && ids.removed.length === 0 && prescriptions.length === 0) return null;
+  return {
+    day: after?.day ?? before?.day ?? "",
+    focus,
+    exercises: { added: ids.added.map(getExerciseName), removed: ids.removed.map(getExerciseName) },
+    prescriptions,
+  };
+};
+
+// What changed going from `before` to `after`; sections with no changes are empty
+export const diffPlans = (before: PlanVersion, after: PlanVersion, unitSystem: UnitSystem = "metric"): PlanDiff => {
+  const beforeExercises = parseSavedPlanExercises(before.exercises);
+  const afterExercises = parseSavedPlanExercises(after.exercises);
+  const beforeTargets = nutritionTargets(before);
+  const afterTargets = nutritionTargets(after);
+
+  const days = unique([...beforeExercises.weeklyPlan, ...afterExercises.weeklyPlan].map(day => day.day));
+  const findDay = (weeklyPlan: WeeklyPlan[], day: string) => weeklyPlan.find(d => d.day === day);
+
+  return {
+    summary: [
+      ...valueChange("BMI", before.bmi, after.bmi),
+      ...valueChange("BMI Category", before.bmi_category, after.bmi_category),
+      ...valueChange("Goal", before.goal, after.goal),
+      ...valueChange("Weight", formatWeight(before.weight, unitSystem), formatWeight(after.weight, unitSystem)),
+      ...valueChange("Activity Level", before.activity_level, after.activity_level),
+      ...valueChange("Diet Preferences", before.diet_preferences?.join(", "), after.diet_preferences?.join(", ")),
+    ],
+    exercises: diffLists(
+      unique(beforeExercises.list.map(getExerciseName)),
+      unique(afterExercises.list.map(getExerciseName))
+    ),
+    nutrition: [
+      ...valueChange("Calories", beforeTargets.calories, afterTargets.calories),
+      ...valueChange("Protein (g)", beforeTargets.proteinGrams, afterTargets.proteinGrams),
+      ...valueChange("Carbs (g)", beforeTargets.carbsGrams, afterTargets.carbsGrams),
+      ...valueChange("Fat (g)", beforeTargets.fatGrams, afterTargets.fatGrams),
+    ],
+    foods: diffLists(foodNames(before), foodNames(after)),
+    schedule: days
+      .map(day => diffDay(findDay(beforeExercises.weeklyPlan, day), findDay(afterExercises.weeklyPlan, day)))
+      .filter((day): day is ScheduleDayDiff => day !== null),
+  };
+};
+
+export const isEmptyDiff = (diff: PlanDiff): boolean =>
+  diff.summary.length === 0 &&
+  diff.exercises.added.length === 0 &&
+  diff.exercises.removed.length === 0 &&
+  diff.nutrition.length === 0 &&
+  diff.foods.added.length === 0 &&
+  diff.foods.removed.length === 0 &&
+  diff.schedule.length === 0;
@@ -0,0 +1,13 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Profile = Tables<"profiles">;
+
+// Whole years between a `YYYY-MM-DD` date of birth and today
+export const calculateAge = (dateOfBirth: string, today = new Date()): number | null => {
+  const [year, month, day] = dateOfBirth.split("-").map(Number);
+  if (!year || !month || !day) return null;
+
+  const hadBirthday =
+    today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  return today.getFullYear() - year - (hadBirthday ? 0 : 1);
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { addDays, format, subMonths, subYears } from "date-fns";
+import { buildWeeklyTotals, getRangeStart, type ChartRange } from "./progressCharts";
+import { parseDateKey } from "./dates";
+
+const day = (date: Date) => format(date, "yyyy-MM-dd");
+
+// A Monday, a mid-week day and a Sunday
+const NOWS = ["2026-10-19", "2026-10-22", "2026-10-25"];
+
+describe("getRangeStart", () => {
+  it.each(NOWS.flatMap(now => (["4w", "3m", "1y"] as ChartRange[]).map(range => ({ range, now }))))(
+    "starts $range before $now on a Monday",
+    ({ range, now }) => {
+      const start = getRangeStart(range, parseDateKey(now))!;
+      expect(format(start, "EEEE")).toBe("Monday");
+    }
+  );
+
+  it.each(NOWS)("covers at least the whole range up to %s", (now) => {
+    const date = parseDateKey(now);
+    expect(day(getRangeStart("3m", date)!) <= day(subMonths(date, 3))).toBe(true);
+    expect(day(getRangeStart("1y", date)!) <= day(subYears(date, 1))).toBe(true);
+  });
+
+  it("is unbounded for all time", () => {
+    expect(getRangeStart("all", parseDateKey("2026-10-22"))).toBeNull();
+  });
+});
+
+describe("buildWeeklyTotals", () => {
+  // What get_weekly_workout_stats returns for a workout every day since `since`
+  const dailyWorkouts = (since: Date, now: Date) => {
+    const weeks: Record<string, number> = {};
+    for (let date = since; day(date) <= day(now); date = addDays(date, 1)) {
+      const monday = day(addDays(date, -((date.getDay() + 6) % 7)));
+      weeks[monday] = (weeks[monday] ?? 0) + 1;
+    }
+    return Object.entries(weeks).map(([week, workouts]) => ({ week, workouts, duration: 0, calories: 0 }));
+  };
+
+  it.each(NOWS.flatMap(now => (["4w", "3m", "1y"] as ChartRange[]).map(range => ({ range, now }))))(
+    "starts $range before $now with a full week",
+    ({ range, now }) => {
+      const date = parseDateKey(now);
+      const start = getRangeStart(range, date)!;
+      const totals = buildWeeklyTotals(dailyWorkouts(start, date), start, date);
+
+      expect(totals[0].week).toBe(day(start));
+      expect(totals.slice(0, -1).map(week => week.workouts)).toEqual(totals.slice(0, -1).map(() => 7));
+    }
+  );
+});
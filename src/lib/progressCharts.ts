@@ -0,0 +1,72 @@
+import { addWeeks, format, parseISO, startOfWeek, subMonths, subWeeks, subYears } from "date-fns";
+import { toDisplayWeight, type UnitSystem } from "./units";
+
+export type ChartRange = "4w" | "3m" | "1y" | "all";
+
+export const CHART_RANGE_OPTIONS: { id: ChartRange; label: string }[] = [
+  { id: "4w", label: "4 weeks" },
+  { id: "3m", label: "3 months" },
+  { id: "1y", label: "1 year" },
+  { id: "all", label: "All time" },
+];
+
+// Same order as the logger's mood picker
+export const MOODS = ["great", "good", "okay", "tired", "exhausted"];
+
+export interface WeeklyTotals {
+  week: string;
+  workouts: number;
+  duration: number;
+  calories: number;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const weekKey = (date: Date) => format(startOfWeek(date, WEEK_OPTIONS), "yyyy-MM-dd");
+
+// First day included in the range, or null for all time. Always a Monday, so
+// the first weekly bar covers a whole week.
+export const getRangeStart = (range: ChartRange, now: Date): Date | null => {
+  switch (range) {
+    case "4w":
+      return startOfWeek(subWeeks(now, 3), WEEK_OPTIONS);
+    case "3m":
+      return startOfWeek(subMonths(now, 3), WEEK_OPTIONS);
+    case "1y":
+      return startOfWeek(subYears(now, 1), WEEK_OPTIONS);
+    default:
+      return null;
+  }
+};
+
+// One entry per week from `start` (or the first week with workouts) to `now`,
+// filling in weeks without workouts. `weeks` are per-week totals keyed by Monday.
+export const buildWeeklyTotals = (weeks: WeeklyTotals[], start: Date | null, now: Date): WeeklyTotals[] => {
+  const totals: Record<string, WeeklyTotals> = {};
+  weeks.forEach(week => {
+    totals[week.week] = week;
+  });
+
+  const firstWeek = weeks.map(week => week.week).sort()[0];
+  const first = start ?? (firstWeek ? parseISO(firstWeek) : null);
+  if (!first) return [];
+
+  const filled: WeeklyTotals[] = [];
+  const last = weekKey(now);
+  for (let week = startOfWeek(first, WEEK_OPTIONS); weekKey(week) <= last; week = addWeeks(week, 1)) {
+    const key = weekKey(week);
+    filled.push(totals[key] ?? { week: key, workouts: 0, duration: 0, calories: 0 });
+  }
+  return filled;
+};
+
+// Every mood in picker order, including ones with no workouts
+export const buildMoodDistribution = (counts: { mood: string; workouts: number }[]): { mood: string; count: number }[] =>
+  MOODS.map(mood => ({ mood, count: counts.find(entry => entry.mood === mood)?.workouts ?? 0 }));
+
+// Per-day reps × load in kg, rounded in the display weight unit
+export const buildVolumeTrend = (
+  days: { day: string; volume_kg: number }[],
+  unitSystem: UnitSystem
+): { date: string; volume: number }[] =>
+  days.map(({ day, volume_kg }) => ({ date: day, volume: Math.round(toDisplayWeight(volume_kg, unitSystem)) }));
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { addDaysToKey, parseDateKey } from "./dates";
+import { getPlanDayForDate } from "./activePlan";
+import { generateWeeklyPlan, type WeeklyPlan } from "./planEngine";
+import { EMPTY_STREAK, getRestSinceKey, getRestWeekdays, toStreakStatus } from "./streaks";
+
+// ISO weekday of a calendar day, as Postgres' EXTRACT(ISODOW FROM date) gives it
+const isoWeekday = (key: string): number => new Date(`${key}T00:00:00Z`).getUTCDay() || 7;
+
+const restDay = (day: string): WeeklyPlan => ({ day, focus: "Rest Day", exercises: ["walking"], duration: "30 min", volume: {} });
+
+describe("getRestWeekdays", () => {
+  it("maps rest and recovery days to ISO weekdays", () => {
+    const weeklyPlan = generateWeeklyPlan("maintain", [], "low", []);
+    const restDays = weeklyPlan.filter(day => day.focus === "Rest Day" || day.focus === "Active Recovery");
+
+    expect(restDays.length).toBeGreaterThan(0);
+    expect(getRestWeekdays(weeklyPlan)).toEqual([5, 6, 7].slice(3 - restDays.length));
+  });
+
+  it("follows days moved around the week", () => {
+    expect(getRestWeekdays([restDay("Sunday"), restDay("Wednesday")])).toEqual([3, 7]);
+  });
+
+  it("is empty without a plan", () => {
+    expect(getRestWeekdays(undefined)).toEqual([]);
+  });
+});
+
+describe("getRestSinceKey", () => {
+  it.each([
+    // Just after midnight on the day New York springs forward
+    { activatedAt: "2026-03-08T05:30:00Z", timeZone: "America/New_York", key: "2026-03-08" },
+    { activatedAt: "2026-03-08T05:30:00Z", timeZone: "Europe/London", key: "2026-03-08" },
+    // Late on the evening New York falls back, already the next day in London
+    { activatedAt: "2026-11-02T04:30:00Z", timeZone: "America/New_York", key: "2026-11-01" },
+    { activatedAt: "2026-11-02T04:30:00Z", timeZone: "Europe/London", key: "2026-11-02" },
+    // Just after midnight BST on the day London falls back
+    { activatedAt: "2026-10-24T23:30:00Z", timeZone: "Europe/London", key: "2026-10-25" },
+    { activatedAt: "2026-10-24T23:30:00Z", timeZone: "America/New_York", key: "2026-10-24" },
+    // The last minute of the day London springs forward
+    { activatedAt: "2026-03-29T22:59:00Z", timeZone: "Europe/London", key: "2026-03-29" },
+  ])("starts on $key for a plan made active at $activatedAt in $timeZone", ({ activatedAt, timeZone, key }) => {
+    expect(getRestSinceKey(activatedAt, timeZone)).toBe(key);
+  });
+
+  it("is unset without an active plan", () => {
+    expect(getRestSinceKey(null, "Europe/London")).toBeUndefined();
+  });
+});
+
+// get_current_streak matches rest days on ISO weekdays, while the progress
+// page shows plan days by the host's local weekday; they must agree on the
+// days around a clock change. The walk itself runs in the database.
+describe.each(["America/New_York", "Europe/London"])("rest weekdays with the host in %s", (hostZone) => {
+  let previousZone: string | undefined;
+
+  beforeEach(() => {
+    previousZone = process.env.TZ;
+    process.env.TZ = hostZone;
+  });
+
+  afterEach(() => {
+    if (previousZone === undefined) delete process.env.TZ;
+    else process.env.TZ = previousZone;
+  });
+
+  const weeklyPlan = generateWeeklyPlan("gain", [], "moderate", []);
+  const restWeekdays = getRestWeekdays(weeklyPlan);
+
+  it.each(["2026-03-08", "2026-03-29", "2026-10-25", "2026-11-01"])(
+    "matches ISO rest weekdays to plan days around %s",
+    (change) => {
+      for (let key = addDaysToKey(change, -7); key <= addDaysToKey(change, 7); key = addDaysToKey(key, 1)) {
+        const planDay = getPlanDayForDate(weeklyPlan, parseDateKey(key));
+        const isRest = planDay?.focus === "Rest Day" || planDay?.focus === "Active Recovery";
+        expect(restWeekdays.includes(isoWeekday(key)), key).toBe(isRest);
+      }
+    }
+  );
+});
+
+describe("toStreakStatus", () => {
+  it("reads the database row", () => {
+    expect(toStreakStatus({ current_streak: 9, freezes: 1, frozen_days: ["2026-03-08"] })).toEqual({
+      current: 9,
+      freezes: 1,
+      frozenDays: ["2026-03-08"],
+    });
+  });
+
+  it("is empty without a row", () => {
+    expect(toStreakStatus(undefined)).toEqual(EMPTY_STREAK);
+  });
+});
@@ -0,0 +1,47 @@
+import type { Database } from "@/integrations/supabase/types";
+import { toDateKey } from "./dates";
+import type { WeeklyPlan } from "./planEngine";
+
+export type StreakRow = Database["public"]["Functions"]["get_current_streak"]["Returns"][number];
+
+export interface StreakStatus {
+  current: number;
+  // Banked freezes, spent automatically on missed days
+  freezes: number;
+  // Days in the current streak saved by a freeze
+  frozenDays: string[];
+}
+
+export const EMPTY_STREAK: StreakStatus = { current: 0, freezes: 0, frozenDays: [] };
+
+const ISO_WEEKDAYS: Record<string, number> = {
+  Monday: 1,
+  Tuesday: 2,
+  Wednesday: 3,
+  Thursday: 4,
+  Friday: 5,
+  Saturday: 6,
+  Sunday: 7,
+};
+
+// ISO weekdays (1 = Monday) of the days `generateWeeklyPlan` schedules off
+// from regular training; `get_current_streak` counts them as kept
+export const getRestWeekdays = (weeklyPlan: WeeklyPlan[] | undefined): number[] =>
+  (weeklyPlan ?? [])
+    .filter(day => day.focus === "Rest Day" || day.focus === "Active Recovery")
+    .map(day => ISO_WEEKDAYS[day.day])
+    .filter(weekday => weekday !== undefined)
+    .sort((a, b) => a - b);
+
+// The first calendar day the active plan's rest days apply to
+export const getRestSinceKey = (activePlanSince: string | null | undefined, timeZone: string): string | undefined =>
+  activePlanSince ? toDateKey(new Date(activePlanSince), timeZone) : undefined;
+
+export const toStreakStatus = (row: StreakRow | undefined): StreakStatus =>
+  row
+    ? {
+        current: row.current_streak,
+        freezes: row.freezes,
+        frozenDays: row.frozen_days ?? [],
+      }
+    : EMPTY_STREAK;
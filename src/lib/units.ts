@@ -0,0 +1,62 @@
+// Everything is stored in metric; imperial only exists at the edges (inputs and displays).
+export type UnitSystem = "metric" | "imperial";
+
+export const UNIT_SYSTEM_OPTIONS: { id: UnitSystem; label: string }[] = [
+  { id: "metric", label: "Metric (kg, cm)" },
+  { id: "imperial", label: "Imperial (lb, ft/in)" },
+];
+
+const LB_PER_KG = 2.20462;
+const CM_PER_INCH = 2.54;
+const INCHES_PER_FOOT = 12;
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const toUnitSystem = (value: string | null | undefined): UnitSystem =>
+  value === "imperial" ? "imperial" : "metric";
+
+export const kgToLb = (kg: number): number => kg * LB_PER_KG;
+
+export const lbToKg = (lb: number): number => lb / LB_PER_KG;
+
+export const cmToFeetInches = (cm: number): { feet: number; inches: number } => {
+  const totalInches = roundTo(cm / CM_PER_INCH, 1);
+  const feet = Math.floor(totalInches / INCHES_PER_FOOT);
+  return { feet, inches: roundTo(totalInches - feet * INCHES_PER_FOOT, 1) };
+};
+
+export const feetInchesToCm = (feet: number, inches: number): number =>
+  (feet * INCHES_PER_FOOT + inches) * CM_PER_INCH;
+
+export const weightUnit = (system: UnitSystem): string => (system === "imperial" ? "lb" : "kg");
+
+export const toDisplayWeight = (kg: number, system: UnitSystem): number =>
+  roundTo(system === "imperial" ? kgToLb(kg) : kg, 1);
+
+export const fromDisplayWeight = (value: number, system: UnitSystem): number =>
+  system === "imperial" ? lbToKg(value) : value;
+
+export const formatWeight = (kg: number | null | undefined, system: UnitSystem): string =>
+  kg == null ? "N/A" : `${toDisplayWeight(kg, system)} ${weightUnit(system)}`;
+
+export const formatHeight = (cm: number | null | undefined, system: UnitSystem): string => {
+  if (cm == null) return "N/A";
+  if (system === "metric") return `${roundTo(cm, 1)} cm`;
+  const { feet, inches } = cmToFeetInches(Math.round(cm / CM_PER_INCH) * CM_PER_INCH);
+  return `${feet}'${Math.round(inches)}"`;
+};
+
+// Body measurements (waist, arm, ...) are stored in cm and shown in cm or inches
+export const lengthUnit = (system: UnitSystem): string => (system === "imperial" ? "in" : "cm");
+
+export const toDisplayLength = (cm: number, system: UnitSystem): number =>
+  roundTo(system === "imperial" ? cm / CM_PER_INCH : cm, 1);
+
+export const fromDisplayLength = (value: number, system: UnitSystem): number =>
+  system === "imperial" ? value * CM_PER_INCH : value;
+
+export const formatLength = (cm: number | null | undefined, system: UnitSystem): string =>
+  cm == null ? "N/A" : `${toDisplayLength(cm, system)} ${lengthUnit(system)}`;
@@ -0,0 +1,115 @@
+import type { SetDraft } from "./workoutSets";
+
+// A guided workout in progress. Times are epoch milliseconds so the session
+// survives a page reload.
+export interface WorkoutSession {
+  startedAt: number;
+  // Active time banked before the current run; paused time is not counted
+  elapsedMs: number;
+  // When the current run started, or null while paused
+  resumedAt: number | null;
+  exercises: string[];
+  sets: Record<string, SetDraft[]>;
+  exerciseIndex: number;
+  setIndex: number;
+  restEndsAt: number | null;
+}
+
+const STORAGE_PREFIX = "fitbot.workoutSession.";
+const MS_PER_MINUTE = 60000;
+
+export const startSession = (exercises: string[], sets: Record<string, SetDraft[]>, now: number): WorkoutSession => ({
+  startedAt: now,
+  elapsedMs: 0,
+  resumedAt: now,
+  exercises,
+  sets,
+  exerciseIndex: 0,
+  setIndex: 0,
+  restEndsAt: null,
+});
+
+export const isPaused = (session: WorkoutSession): boolean => session.resumedAt === null;
+
+export const getElapsedMs = (session: WorkoutSession, now: number): number =>
+  session.elapsedMs + (session.resumedAt === null ? 0 : Math.max(0, now - session.resumedAt));
+
+// Pausing also stops the rest timer; resuming does not restart it
+export const pauseSession = (session: WorkoutSession, now: number): WorkoutSession =>
+  isPaused(session) ? session : { ...session, elapsedMs: getElapsedMs(session, now), resumedAt: null, restEndsAt: null };
+
+export const resumeSession = (session: WorkoutSession, now: number): WorkoutSession =>
+  isPaused(session) ? { ...session, resumedAt: now } : session;
+
+export const getRestRemainingMs = (session: WorkoutSession, now: number): number =>
+  session.restEndsAt === null ? 0 : Math.max(0, session.restEndsAt - now);
+
+export const extendRest = (session: WorkoutSession, seconds: number, now: number): WorkoutSession =>
+  session.restEndsAt === null ? session : { ...session, restEndsAt: Math.max(now, session.restEndsAt + seconds * 1000) };
+
+export const skipRest = (session: WorkoutSession): WorkoutSession => ({ ...session, restEndsAt: null });
+
+export const getCurrentExercise = (session: WorkoutSession): string | undefined => session.exercises[session.exerciseIndex];
+
+export const isSessionComplete = (session: WorkoutSession): boolean =>
+  session.exerciseIndex >= session.exercises.length;
+
+export const updateCurrentSet = (session: WorkoutSession, changes: Partial<SetDraft>): WorkoutSession => {
+  const exercise = getCurrentExercise(session);
+  if (!exercise) return session;
+  return {
+    ...session,
+    sets: {
+      ...session.sets,
+      [exercise]: session.sets[exercise].map((set, index) => (index === session.setIndex ? { ...set, ...changes } : set)),
+    },
+  };
+};
+
+export const goToExercise = (session: WorkoutSession, exerciseIndex: number): WorkoutSession => ({
+  ...session,
+  exerciseIndex: Math.min(Math.max(0, exerciseIndex), session.exercises.length),
+  setIndex: 0,
+  restEndsAt: null,
+});
+
+// Ticks off the current set, moves to the next one and starts its rest
+export const completeCurrentSet = (session: WorkoutSession, now: number): WorkoutSession => {
+  const exercise = getCurrentExercise(session);
+  if (!exercise) return session;
+
+  const current = session.sets[exercise][session.setIndex];
+  const updated = updateCurrentSet(session, { completed: true });
+  const rest = parseInt(current?.rest ?? "");
+  const restEndsAt = rest > 0 ? now + rest * 1000 : null;
+
+  if (session.setIndex + 1 < session.sets[exercise].length) {
+    return { ...updated, setIndex: session.setIndex + 1, restEndsAt };
+  }
+  const next = goToExercise(updated, session.exerciseIndex + 1);
+  return isSessionComplete(next) ? next : { ...next, restEndsAt };
+};
+
+// Whole minutes, rounded up so a short session never logs as zero
+export const getDurationMinutes = (session: WorkoutSession, now: number): number =>
+  Math.max(1, Math.ceil(getElapsedMs(session, now) / MS_PER_MINUTE));
+
+const storageKey = (userId: string) => `${STORAGE_PREFIX}${userId}`;
+
+export const saveStoredSession = (userId: string, session: WorkoutSession | null) => {
+  if (session) {
+    localStorage.setItem(storageKey(userId), JSON.stringify(session));
+  } else {
+    localStorage.removeItem(storageKey(userId));
+  }
+};
+
+export const loadStoredSession = (userId: string): WorkoutSession | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    const session = stored ? (JSON.parse(stored) as WorkoutSession) : null;
+    return session && Array.isArray(session.exercises) && session.sets ? session : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,174 @@
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { defaultPrescription, getExercise } from "./exerciseCatalog";
+import { formatWeight, fromDisplayWeight, toDisplayWeight, type UnitSystem } from "./units";
+
+export type WorkoutSet = Tables<"workout_sets">;
+
+// What a set of an exercise is measured in
+export type SetKind = "reps" | "duration" | "distance";
+
+// One set as typed into the logger; the load is in the user's display unit
+export interface SetDraft {
+  reps: string;
+  load: string;
+  duration: string;
+  distance: string;
+  rpe: string;
+  rest: string;
+  completed: boolean;
+}
+
+export type SetField = "reps" | "load" | "duration" | "distance";
+
+// The two measurement columns entered for each kind of set
+export const SET_FIELDS: Record<SetKind, SetField[]> = {
+  reps: ["reps", "load"],
+  duration: ["duration", "load"],
+  distance: ["distance", "duration"],
+};
+
+export const SET_FIELD_LABELS: Record<SetField, string> = {
+  reps: "Reps",
+  load: "Load",
+  duration: "Secs",
+  distance: "Meters",
+};
+
+export const RPE_MIN = 1;
+export const RPE_MAX = 10;
+
+const REST_SECONDS = { strength: 90, cardio: 60, mobility: 30 };
+const DEFAULT_SETS = 3;
+
+const toText = (value: number | null) => (value === null ? "" : String(value));
+
+const parseNumber = (text: string): number | null => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+export const getSetKind = (exerciseId: string): SetKind => {
+  const exercise = getExercise(exerciseId);
+  if (exercise?.defaultDistanceMeters) return "distance";
+  if (exercise?.defaultDurationSeconds) return "duration";
+  return "reps";
+};
+
+export const defaultRestSeconds = (exerciseId: string): number => {
+  const exercise = getExercise(exerciseId);
+  return exercise ? REST_SECONDS[exercise.category] : REST_SECONDS.strength;
+};
+
+export const emptySetDraft = (exerciseId: string): SetDraft => ({
+  reps: "",
+  load: "",
+  duration: "",
+  distance: "",
+  rpe: "",
+  rest: String(defaultRestSeconds(exerciseId)),
+  completed: false,
+});
+
+// Repeat what was done last session (`previous` is in set order); without
+// history, fall back to the catalog's default sets and reps.
+export const prefillSets = (exerciseId: string, previous: WorkoutSet[], unitSystem: UnitSystem): SetDraft[] => {
+  if (previous.length > 0) {
+    return previous.map(set => ({
+      reps: toText(set.reps),
+      load: set.load_kg === null ? "" : String(toDisplayWeight(set.load_kg, unitSystem)),
+      duration: toText(set.duration_seconds),
+      distance: toText(set.distance_meters),
+      rpe: toText(set.rpe),
+      rest: toText(set.rest_seconds ?? defaultRestSeconds(exerciseId)),
+      completed: false,
+    }));
+  }
+
+  const exercise = getExercise(exerciseId);
+  const prescription = exercise ? defaultPrescription(exercise) : null;
+  return Array.from({ length: prescription?.sets ?? DEFAULT_SETS }, () => ({
+    ...emptySetDraft(exerciseId),
+    reps: toText(prescription?.reps ?? null),
+    // Distance sets are timed by the user, so only the distance is prefilled
+    duration: prescription?.distanceMeters ? "" : toText(prescription?.durationSeconds ?? null),
+    distance: toText(prescription?.distanceMeters ?? null),
+  }));
+};
+
+// Sets from each exercise's most recent logged workout, in set order
+export const groupLatestSessionSets = (sets: WorkoutSet[]): Record<string, WorkoutSet[]> => {
+  const latestLog: Record<string, { logId: string; createdAt: string }> = {};
+  sets.forEach(set => {
+    const latest = latestLog[set.exercise_id];
+    if (!latest || set.created_at > latest.createdAt) {
+      latestLog[set.exercise_id] = { logId: set.workout_log_id, createdAt: set.created_at };
+    }
+  });
+
+  const grouped: Record<string, WorkoutSet[]> = {};
+  sets.forEach(set => {
+    if (latestLog[set.exercise_id]?.logId !== set.workout_log_id) return;
+    grouped[set.exercise_id] = [...(grouped[set.exercise_id] ?? []), set];
+  });
+  Object.values(grouped).forEach(group => group.sort((a, b) => a.set_number - b.set_number));
+  return grouped;
+};
+
+// Returns a message for the first invalid field, or null
+export const validateSetDraft = (draft: SetDraft): string | null => {
+  if (draft.rpe) {
+    const rpe = parseFloat(draft.rpe);
+    if (!(rpe >= RPE_MIN && rpe <= RPE_MAX)) return `RPE must be between ${RPE_MIN} and ${RPE_MAX}`;
+  }
+  if ([draft.reps, draft.load, draft.duration, draft.rest].some(text => text !== "" && parseNumber(text) === null)) {
+    return "Reps, load, time and rest must be positive numbers";
+  }
+  if (draft.distance !== "" && !(parseFloat(draft.distance) > 0)) return "Distance must be greater than zero";
+  return null;
+};
+
+export const toWorkoutSetRows = (
+  userId: string,
+  workoutLogId: string,
+  setsByExercise: Record<string, SetDraft[]>,
+  unitSystem: UnitSystem
+): TablesInsert<"workout_sets">[] =>
+  Object.entries(setsByExercise).flatMap(([exerciseId, drafts]) =>
+    drafts.map((draft, index) => {
+      const load = parseNumber(draft.load);
+      const reps = parseNumber(draft.reps);
+      const rest = parseNumber(draft.rest);
+      const duration = parseNumber(draft.duration);
+      return {
+        user_id: userId,
+        workout_log_id: workoutLogId,
+        exercise_id: exerciseId,
+        set_number: index + 1,
+        reps: reps === null ? null : Math.round(reps),
+        load_kg: load === null ? null : fromDisplayWeight(load, unitSystem),
+        duration_seconds: duration === null ? null : Math.round(duration),
+        distance_meters: parseNumber(draft.distance) || null,
+        rpe: parseNumber(draft.rpe),
+        rest_seconds: rest === null ? null : Math.round(rest),
+        completed: draft.completed,
+      };
+    })
+  );
+
+// 95 -> "1:35"
+export const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, "0")}`;
+
+type FormattableSet = Pick<WorkoutSet, "reps" | "load_kg" | "rpe" | "duration_seconds" | "distance_meters">;
+
+// "8 reps × 60 kg @ RPE 8", "500 m in 1:45"
+export const formatSet = (set: FormattableSet, unitSystem: UnitSystem): string =>
+  [
+    set.distance_meters !== null ? `${set.distance_meters} m` : null,
+    set.reps !== null ? `${set.reps} reps` : null,
+    set.load_kg !== null ? formatWeight(set.load_kg, unitSystem) : null,
+  ]
+    .filter(Boolean)
+    .join(" × ") +
+  (set.duration_seconds !== null ? `${set.distance_meters !== null ? " in " : ""}${formatDuration(set.duration_seconds)}` : "") +
+  (set.rpe !== null ? ` @ RPE ${set.rpe}` : "");
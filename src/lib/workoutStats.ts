@@ -0,0 +1,29 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type WorkoutTotalsRow = Database["public"]["Functions"]["get_workout_totals"]["Returns"][number];
+
+export type ExerciseSummary = Database["public"]["Functions"]["get_exercise_summaries"]["Returns"][number];
+
+export interface WorkoutStats {
+  totalWorkouts: number;
+  totalDuration: number;
+  totalCalories: number;
+  thisWeekWorkouts: number;
+}
+
+export const EMPTY_WORKOUT_STATS: WorkoutStats = {
+  totalWorkouts: 0,
+  totalDuration: 0,
+  totalCalories: 0,
+  thisWeekWorkouts: 0,
+};
+
+export const toWorkoutStats = (row: WorkoutTotalsRow | undefined): WorkoutStats =>
+  row
+    ? {
+        totalWorkouts: row.total_workouts,
+        totalDuration: row.total_duration,
+        totalCalories: row.total_calories,
+        thisWeekWorkouts: row.this_week_workouts,
+      }
+    : EMPTY_WORKOUT_STATS;
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Award, Loader2, Lock } from "lucide-react";
+import { useProfile } from "@/hooks/use-profile";
+import { useActivePlan } from "@/hooks/use-active-plan";
+import { useAchievements } from "@/hooks/use-achievements";
+import { useStreak } from "@/hooks/use-streak";
+import { ACHIEVEMENT_RULES } from "@/lib/achievements";
+import { resolveTimeZone } from "@/lib/dates";
+
+const Achievements = () => {
+  const navigate = useNavigate();
+  const [user, setUser] = useState<User | null>(null);
+  const { profile } = useProfile(user);
+  const { activePlan } = useActivePlan(profile?.active_plan_id);
+  const timeZone = resolveTimeZone(profile?.timezone);
+  const streak = useStreak(user, activePlan?.weeklyPlan, profile?.active_plan_since, timeZone);
+  const { achievements, stats, loading } = useAchievements(user, streak.current, timeZone);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      setUser(session.user);
+    });
+  }, [navigate]);
+
+  const unlockedAt: Record<string, string> = {};
+  achievements.forEach(achievement => {
+    unlockedAt[achievement.achievement_id] = achievement.unlocked_at;
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" onClick={() => navigate("/progress")} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-2xl gradient-energy flex items-center justify-center">
+              <Award className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Badges</h1>
+              <p className="text-muted-foreground">
+                {Object.keys(unlockedAt).length} of {ACHIEVEMENT_RULES.length} unlocked
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {loading && achievements.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {ACHIEVEMENT_RULES.map((rule) => {
+              const unlocked = unlockedAt[rule.id];
+              const { current, target } = rule.progress(stats);
+              return (
+                <Card
+                  key={rule.id}
+                  className={`p-6 shadow-card text-center space-y-3 ${unlocked ? "" : "opacity-60"}`}
+                >
+                  <div className={`text-5xl ${unlocked ? "" : "grayscale"}`}>{rule.emoji}</div>
+                  <div>
+                    <h3 className="font-bold">{rule.title}</h3>
+                    <p className="text-sm text-muted-foreground">{rule.description}</p>
+                  </div>
+                  {unlocked ? (
+                    <p className="text-xs text-primary font-medium">
+                      Unlocked {format(new Date(unlocked), "MMM d, yyyy")}
+                    </p>
+                  ) : (
+                    <div className="space-y-1">
+                      <Progress value={(current / target) * 100} />
+                      <p className="text-xs text-muted-foreground flex items-center justify-center gap-1">
+                        <Lock className="w-3 h-3" />
+                        {current} / {target}
+                      </p>
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Achievements;
@@ -1,12 +1,32 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { History as HistoryIcon, Dumbbell, Apple, ArrowLeft, Trash2, Loader2, FileText } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History as HistoryIcon, Dumbbell, Apple, ArrowLeft, Trash2, Loader2, FileText, Pencil, RefreshCw, GitCompare, Layers, CalendarCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useProfile } from "@/hooks/use-profile";
 import { format } from "date-fns";
+import { HEALTH_CONDITION_OPTIONS, formatExercise, type Contraindication } from "@/lib/exerciseCatalog";
+import { ALLERGEN_OPTIONS } from "@/lib/foodDatabase";
+import { formatHeight, formatWeight, toUnitSystem } from "@/lib/units";
+import {
+  parseChangeHistory,
+  parseSavedDietPlan,
+  parseSavedPlanExercises,
+  serializeChangeHistory,
+  serializeSavedPlanExercises,
+} from "@/lib/planStorage";
+import type { PlanEditor } from "@/lib/planEditing";
+import { groupPlansByLineage } from "@/lib/planVersions";
+import { WeeklyPlanView } from "@/components/WeeklyPlanView";
+import { NutritionTargetsSummary } from "@/components/NutritionTargetsSummary";
+import { MealPlanView } from "@/components/MealPlanView";
+import { PlanDiffView } from "@/components/PlanDiffView";
+import type { NutritionTargets } from "@/lib/nutrition";
+import type { Json } from "@/integrations/supabase/types";
 
 interface FitnessPlan {
   id: string;
@@ -18,22 +38,28 @@ interface FitnessPlan {
   activity_level: string | null;
   goal: string | null;
   diet_preferences: string[] | null;
+  allergies?: string[] | null;
+  disliked_foods?: string[] | null;
+  health_conditions?: string[] | null;
   equipment: string | null;
   bmi: number | null;
   bmi_category: string | null;
-  exercises: any[] | null;
-  diet_plan: any[] | null;
+  exercises: Json | null;
+  diet_plan: Json | null;
   notes: any[] | null;
+  nutrition_targets?: Json | null;
+  change_history?: Json;
   medical_records?: string[] | null;
+  lineage_id: string;
+  version: number;
+  parent_plan_id: string | null;
   created_at: string;
 }
-// Helper function to safely convert JSONB data to array
-const toArray = (data: any): any[] => {
-  if (Array.isArray(data)) return data;
-  if (data === null || data === undefined) return [];
-  if (typeof data === 'object') return Object.values(data);
-  return [data];
-};
+
+interface Comparison {
+  beforeId: string;
+  afterId: string;
+}
 
 const History = () => {
   const navigate = useNavigate();
@@ -41,6 +67,13 @@ const History = () => {
   const [plans, setPlans] = useState<FitnessPlan[]>([]);
   const [loading, setLoading] = useState(true);
   const [user, setUser] = useState<any>(null);
+  const { profile, saveProfile } = useProfile(user);
+  const unitSystem = toUnitSystem(profile?.unit_preference);
+  // Open version comparisons, keyed by lineage
+  const [comparisons, setComparisons] = useState<Record<string, Comparison>>({});
+  // Latest content of plans edited on this page, which the next edit builds on
+  const editedPlans = useRef<Record<string, Pick<FitnessPlan, "exercises" | "change_history">>>({});
+  const editSaves = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
     checkUser();
@@ -103,6 +136,72 @@ const History = () => {
     }
   };
 
+  // Saves run one after another, in the order the edits were made
+  const updateWeeklyPlan = (plan: FitnessPlan, editPlan: PlanEditor) => {
+    const current = editedPlans.current[plan.id] ?? plan;
+    const saved = parseSavedPlanExercises(current.exercises);
+    const edit = editPlan(saved.weeklyPlan);
+    if (!edit) return;
+
+    const update = {
+      exercises: serializeSavedPlanExercises({ ...saved, weeklyPlan: edit.weeklyPlan }),
+      change_history: serializeChangeHistory([...parseChangeHistory(current.change_history), edit.change]),
+    };
+    editedPlans.current[plan.id] = update;
+    setPlans(prev => prev.map(p => (p.id === plan.id ? { ...p, ...update } : p)));
+
+    editSaves.current = editSaves.current.then(async () => {
+      const { error } = await supabase.from("fitness_plans").update(update).eq("id", plan.id);
+      if (error) {
+        console.error("Update error:", error);
+        toast({
+          title: "Error",
+          description: "Failed to save your changes",
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const setActivePlan = async (id: string) => {
+    try {
+      await saveProfile({ active_plan_id: id });
+      toast({
+        title: "Active Plan Set",
+        description: "Workouts you log on the Progress page now follow this plan",
+      });
+    } catch (error) {
+      console.error("Update error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to set the active plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const setComparison = (lineageId: string, comparison: Comparison | null) => {
+    setComparisons(prev => {
+      const { [lineageId]: _removed, ...rest } = prev;
+      return comparison ? { ...rest, [lineageId]: comparison } : rest;
+    });
+  };
+
+  const renderVersionSelect = (versions: FitnessPlan[], value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full md:w-[200px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            v{version.version} · {format(new Date(version.created_at), "PP")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
   const getCategoryColor = (category: string) => {
     switch (category) {
       case "Underweight": return "text-yellow-600";
@@ -163,114 +262,251 @@ const History = () => {
           </Card>
         ) : (
           <div className="grid gap-6">
-            {plans.map((plan) => (
-              <Card key={plan.id} className="p-6 shadow-card hover:shadow-energy transition-shadow">
-                <div className="flex items-start justify-between mb-4">
-                  <div>
-                    <h3 className="text-xl font-bold">
-                      {plan.name || "Unnamed Plan"}
-                    </h3>
-                    <p className="text-sm text-muted-foreground">
-                      Created {format(new Date(plan.created_at), "PPP")}
-                    </p>
-                    <p className={`text-lg font-semibold mt-1 ${getCategoryColor(plan.bmi_category ?? "")}`}>
-                      BMI: {plan.bmi ?? "N/A"} ({plan.bmi_category ?? "N/A"})
-                    </p>
-                  </div>
-                  
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => deletePlan(plan.id)}
-                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
-                </div>
+            {groupPlansByLineage(plans).map(({ lineageId, versions }) => {
+              const comparison = comparisons[lineageId];
+              const before = comparison && versions.find(v => v.id === comparison.beforeId);
+              const after = comparison && versions.find(v => v.id === comparison.afterId);
 
-                <div className="grid md:grid-cols-3 gap-4 mb-4">
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Age/Gender</p>
-                    <p className="font-medium">{plan.age ?? "N/A"} years, {plan.gender ?? "N/A"}</p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Height/Weight</p>
-                    <p className="font-medium">{plan.height ?? "N/A"}cm, {plan.weight ?? "N/A"}kg</p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Goal</p>
-                    <p className="font-medium capitalize">{plan.goal ?? "N/A"}</p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Activity Level</p>
-                    <p className="font-medium capitalize">{plan.activity_level ?? "N/A"}</p>
-                  </div>
-                  <div className="space-y-1">
-                    <p className="text-sm text-muted-foreground">Diet Preferences</p>
-                    <p className="font-medium">{plan.diet_preferences?.join(", ") ?? "N/A"}</p>
-                  </div>
-                  {plan.equipment && (
-                    <div className="space-y-1">
-                      <p className="text-sm text-muted-foreground">Equipment</p>
-                      <p className="font-medium">{plan.equipment}</p>
+              return (
+                <div key={lineageId} className="space-y-4">
+                  {versions.length > 1 && (
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                      <div className="flex items-center gap-2">
+                        <Layers className="w-5 h-5 text-primary" />
+                        <h2 className="text-lg font-semibold">{versions[0].name || "Unnamed Plan"}</h2>
+                        <span className="text-sm text-muted-foreground">{versions.length} versions</span>
+                      </div>
+                      <div className="flex flex-col md:flex-row gap-2">
+                        {comparison && (
+                          <>
+                            {renderVersionSelect(versions, comparison.beforeId, (beforeId) => setComparison(lineageId, { ...comparison, beforeId }))}
+                            {renderVersionSelect(versions, comparison.afterId, (afterId) => setComparison(lineageId, { ...comparison, afterId }))}
+                          </>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setComparison(lineageId, comparison ? null : { beforeId: versions[1].id, afterId: versions[0].id })}
+                          className="gap-2"
+                        >
+                          <GitCompare className="w-4 h-4" />
+                          {comparison ? "Hide Changes" : "Compare Versions"}
+                        </Button>
+                      </div>
                     </div>
                   )}
-                </div>
 
-                <div className="grid md:grid-cols-2 gap-6 mt-6">
-                  <div>
-                    <div className="flex items-center gap-2 mb-3">
-                      <Dumbbell className="w-4 h-4 text-primary" />
-                      <h4 className="font-semibold">Exercise Plan</h4>
-                    </div>
-                    <ScrollArea className="h-32">
-                      <ul className="space-y-1">
-                        {toArray(plan.exercises).map((exercise, idx) => (
-                          <li key={idx} className="text-sm flex items-start gap-2">
-                            <span className="text-primary">•</span>
-                            <span>{typeof exercise === 'string' ? exercise : JSON.stringify(exercise)}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    </ScrollArea>
-                  </div>
-
-                  <div>
-                    <div className="flex items-center gap-2 mb-3">
-                      <Apple className="w-4 h-4 text-secondary" />
-                      <h4 className="font-semibold">Diet Plan</h4>
-                    </div>
-                    <ScrollArea className="h-32">
-                      <ul className="space-y-1">
-                        {toArray(plan.diet_plan).map((meal, idx) => (
-                          <li key={idx} className="text-sm flex items-start gap-2">
-                            <span className="text-secondary">•</span>
-                            <span>{typeof meal === 'string' ? meal : JSON.stringify(meal)}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    </ScrollArea>
-                  </div>
-                </div>
+                  {before && after && <PlanDiffView before={before} after={after} unitSystem={unitSystem} />}
 
-                {plan.medical_records && plan.medical_records.length > 0 && (
-                  <div className="mt-6">
-                    <div className="flex items-center gap-2 mb-3">
-                      <FileText className="w-4 h-4 text-accent" />
-                      <h4 className="font-semibold">Medical Records</h4>
-                    </div>
-                    <div className="space-y-2">
-                      {plan.medical_records.map((record, idx) => (
-                        <Card key={idx} className="p-2 flex items-center gap-2">
-                          <FileText className="w-4 h-4 text-muted-foreground" />
-                          <span className="text-sm truncate">{record.split('/').pop()}</span>
-                        </Card>
-                      ))}
-                    </div>
-                  </div>
-                )}
-              </Card>
-            ))}
+                  {versions.map((plan) => {
+                    const savedExercises = parseSavedPlanExercises(plan.exercises);
+                    const savedDiet = parseSavedDietPlan(plan.diet_plan);
+                    const changes = parseChangeHistory(plan.change_history);
+
+                    return (
+                      <Card key={plan.id} className="p-6 shadow-card hover:shadow-energy transition-shadow">
+                        <div className="flex items-start justify-between mb-4">
+                          <div>
+                            <h3 className="text-xl font-bold flex items-center gap-2">
+                              {plan.name || "Unnamed Plan"}
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-primary/20 text-primary">
+                                v{plan.version}
+                              </span>
+                              {profile?.active_plan_id === plan.id && (
+                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-secondary/20 text-secondary-foreground">
+                                  Active
+                                </span>
+                              )}
+                            </h3>
+                            <p className="text-sm text-muted-foreground">
+                              Created {format(new Date(plan.created_at), "PPP")}
+                            </p>
+                            <p className={`text-lg font-semibold mt-1 ${getCategoryColor(plan.bmi_category ?? "")}`}>
+                              BMI: {plan.bmi ?? "N/A"} ({plan.bmi_category ?? "N/A"})
+                            </p>
+                          </div>
+                          
+                          <div className="flex items-center gap-1">
+                            {profile?.active_plan_id !== plan.id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setActivePlan(plan.id)}
+                                className="gap-2"
+                              >
+                                <CalendarCheck className="w-4 h-4" />
+                                Set Active
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/?regenerateFrom=${plan.id}`)}
+                              className="gap-2"
+                            >
+                              <RefreshCw className="w-4 h-4" />
+                              Regenerate
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deletePlan(plan.id)}
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+
+                        <div className="grid md:grid-cols-3 gap-4 mb-4">
+                          <div className="space-y-1">
+                            <p className="text-sm text-muted-foreground">Age/Gender</p>
+                            <p className="font-medium">{plan.age ?? "N/A"} years, {plan.gender ?? "N/A"}</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-sm text-muted-foreground">Height/Weight</p>
+                            <p className="font-medium">{formatHeight(plan.height, unitSystem)}, {formatWeight(plan.weight, unitSystem)}</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-sm text-muted-foreground">Goal</p>
+                            <p className="font-medium capitalize">{plan.goal ?? "N/A"}</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-sm text-muted-foreground">Activity Level</p>
+                            <p className="font-medium capitalize">{plan.activity_level ?? "N/A"}</p>
+                          </div>
+                          <div className="space-y-1">
+                            <p className="text-sm text-muted-foreground">Diet Preferences</p>
+                            <p className="font-medium">{plan.diet_preferences?.join(", ") ?? "N/A"}</p>
+                          </div>
+                          {plan.allergies && plan.allergies.length > 0 && (
+                            <div className="space-y-1">
+                              <p className="text-sm text-muted-foreground">Allergies</p>
+                              <p className="font-medium">
+                                {plan.allergies.map(a => ALLERGEN_OPTIONS.find(o => o.id === a)?.label ?? a).join(", ")}
+                              </p>
+                            </div>
+                          )}
+                          {plan.disliked_foods && plan.disliked_foods.length > 0 && (
+                            <div className="space-y-1">
+                              <p className="text-sm text-muted-foreground">Foods to Avoid</p>
+                              <p className="font-medium">{plan.disliked_foods.join(", ")}</p>
+                            </div>
+                          )}
+                          {plan.health_conditions && plan.health_conditions.length > 0 && (
+                            <div className="space-y-1">
+                              <p className="text-sm text-muted-foreground">Health Conditions</p>
+                              <p className="font-medium">
+                                {plan.health_conditions.map(c => HEALTH_CONDITION_OPTIONS.find(o => o.id === c)?.label ?? c).join(", ")}
+                              </p>
+                            </div>
+                          )}
+                          {plan.equipment && (
+                            <div className="space-y-1">
+                              <p className="text-sm text-muted-foreground">Equipment</p>
+                              <p className="font-medium">{plan.equipment}</p>
+                            </div>
+                          )}
+                        </div>
+
+                        <div className="grid md:grid-cols-2 gap-6 mt-6">
+                          <div>
+                            <div className="flex items-center gap-2 mb-3">
+                              <Dumbbell className="w-4 h-4 text-primary" />
+                              <h4 className="font-semibold">Exercise Plan</h4>
+                            </div>
+                            <ScrollArea className="h-32">
+                              <ul className="space-y-1">
+                                {savedExercises.list.map((exercise, idx) => (
+                                  <li key={idx} className="text-sm flex items-start gap-2">
+                                    <span className="text-primary">•</span>
+                                    <span>{formatExercise(exercise)}</span>
+                                  </li>
+                                ))}
+                              </ul>
+                            </ScrollArea>
+                          </div>
+
+                          <div>
+                            <div className="flex items-center gap-2 mb-3">
+                              <Apple className="w-4 h-4 text-secondary" />
+                              <h4 className="font-semibold">Diet Plan</h4>
+                            </div>
+                            {plan.nutrition_targets && (
+                              <div className="mb-3">
+                                <NutritionTargetsSummary targets={plan.nutrition_targets as unknown as NutritionTargets} />
+                              </div>
+                            )}
+                            {savedDiet.mealPlan ? (
+                              <MealPlanView mealPlan={savedDiet.mealPlan} />
+                            ) : (
+                              <ScrollArea className="h-32">
+                                <ul className="space-y-1">
+                                  {savedDiet.lines.map((meal, idx) => (
+                                    <li key={idx} className="text-sm flex items-start gap-2">
+                                      <span className="text-secondary">•</span>
+                                      <span>{meal}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </ScrollArea>
+                            )}
+                          </div>
+                        </div>
+
+                        {savedExercises.weeklyPlan.length > 0 && (
+                          <div className="mt-6">
+                            <WeeklyPlanView
+                              weeklyPlan={savedExercises.weeklyPlan}
+                              weeks={savedExercises.weeks}
+                              equipment={plan.equipment ? plan.equipment.split(", ") : []}
+                              healthConditions={(plan.health_conditions ?? []) as Contraindication[]}
+                              onEdit={(edit) => updateWeeklyPlan(plan, edit)}
+                            />
+                          </div>
+                        )}
+
+                        {changes.length > 0 && (
+                          <div className="mt-6">
+                            <div className="flex items-center gap-2 mb-3">
+                              <Pencil className="w-4 h-4 text-primary" />
+                              <h4 className="font-semibold">Change History</h4>
+                            </div>
+                            <ul className="space-y-1 max-h-32 overflow-y-auto">
+                              {[...changes].reverse().map((entry, idx) => (
+                                <li key={idx} className="text-sm flex items-start gap-2">
+                                  <span className="text-muted-foreground min-w-[110px]">
+                                    {format(new Date(entry.at), "PP p")}
+                                  </span>
+                                  <span>{entry.description}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
+                        {plan.medical_records && plan.medical_records.length > 0 && (
+                          <div className="mt-6">
+                            <div className="flex items-center gap-2 mb-3">
+                              <FileText className="w-4 h-4 text-accent" />
+                              <h4 className="font-semibold">Medical Records</h4>
+                            </div>
+                            <div className="space-y-2">
+                              {plan.medical_records.map((record, idx) => (
+                                <Card key={idx} className="p-2 flex items-center gap-2">
+                                  <FileText className="w-4 h-4 text-muted-foreground" />
+                                  <span className="text-sm truncate">{record.split('/').pop()}</span>
+                                </Card>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </Card>
+                    );
+                  })}
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -4,7 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { FitnessPlanner } from "@/components/FitnessPlanner";
 import { AIChat } from "@/components/AIChat";
 import { Button } from "@/components/ui/button";
-import { Activity, Sparkles, LogIn, LogOut, History, TrendingUp } from "lucide-react";
+import { Activity, Sparkles, LogIn, LogOut, History, TrendingUp, UserCircle, Award } from "lucide-react";
 import type { User } from "@supabase/supabase-js";
 
 const Index = () => {
@@ -54,6 +54,22 @@ const Index = () => {
                   <History className="w-4 h-4" />
                   History
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => navigate("/achievements")}
+                  className="gap-2"
+                >
+                  <Award className="w-4 h-4" />
+                  Badges
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => navigate("/profile")}
+                  className="gap-2"
+                >
+                  <UserCircle className="w-4 h-4" />
+                  Profile
+                </Button>
                 <Button
                   variant="outline"
                   onClick={handleSignOut}
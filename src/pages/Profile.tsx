@@ -0,0 +1,350 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { User } from "@supabase/supabase-js";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Loader2, Save, UserCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useProfile } from "@/hooks/use-profile";
+import { EQUIPMENT_OPTIONS, HEALTH_CONDITION_OPTIONS } from "@/lib/exerciseCatalog";
+import { ALLERGEN_OPTIONS } from "@/lib/foodDatabase";
+import { DIET_OPTIONS } from "@/lib/planEngine";
+import { calculateAge } from "@/lib/profile";
+import { UNIT_SYSTEM_OPTIONS, toUnitSystem } from "@/lib/units";
+import { TIME_ZONE_OPTIONS, getBrowserTimeZone } from "@/lib/dates";
+import { ONE_REP_MAX_FORMULA_OPTIONS } from "@/lib/personalRecords";
+import { HeightInput } from "@/components/MeasurementInputs";
+
+interface ProfileForm {
+  fullName: string;
+  dateOfBirth: string;
+  sex: string;
+  height: string;
+  unitPreference: string;
+  oneRepMaxFormula: string;
+  // IANA zone, or "" to follow the browser
+  timezone: string;
+  equipment: string[];
+  dietPreferences: string[];
+  allergies: string[];
+  dislikedFoods: string;
+  healthConditions: string[];
+}
+
+type ListField = "equipment" | "dietPreferences" | "allergies" | "healthConditions";
+
+const EMPTY_FORM: ProfileForm = {
+  fullName: "",
+  dateOfBirth: "",
+  sex: "",
+  height: "",
+  unitPreference: "metric",
+  oneRepMaxFormula: "epley",
+  timezone: "",
+  equipment: [],
+  dietPreferences: [],
+  allergies: [],
+  dislikedFoods: "",
+  healthConditions: [],
+};
+
+// Radix selects can't hold an empty value
+const AUTO_TIME_ZONE = "auto";
+
+const Profile = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const { profile, loading, saveProfile } = useProfile(user);
+  const [formData, setFormData] = useState<ProfileForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      setUser(session.user);
+    });
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!profile) return;
+    setFormData({
+      fullName: profile.full_name ?? "",
+      dateOfBirth: profile.date_of_birth ?? "",
+      sex: profile.sex ?? "",
+      height: profile.height_cm ? String(profile.height_cm) : "",
+      unitPreference: profile.unit_preference,
+      oneRepMaxFormula: profile.one_rep_max_formula,
+      timezone: profile.timezone ?? "",
+      equipment: profile.equipment,
+      dietPreferences: profile.diet_preferences,
+      allergies: profile.allergies,
+      dislikedFoods: profile.disliked_foods.join(", "),
+      healthConditions: profile.health_conditions,
+    });
+  }, [profile]);
+
+  const toggle = (field: ListField, id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(id) ? prev[field].filter(item => item !== id) : [...prev[field], id],
+    }));
+  };
+
+  const handleSave = async () => {
+    const height = formData.height ? parseFloat(formData.height) : null;
+    if (height !== null && (!height || height <= 0)) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter a valid height",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveProfile({
+        full_name: formData.fullName || null,
+        date_of_birth: formData.dateOfBirth || null,
+        sex: formData.sex || null,
+        height_cm: height,
+        unit_preference: formData.unitPreference,
+        one_rep_max_formula: formData.oneRepMaxFormula,
+        timezone: formData.timezone || null,
+        equipment: formData.equipment,
+        diet_preferences: formData.dietPreferences,
+        allergies: formData.allergies,
+        disliked_foods: formData.dislikedFoods.split(",").map(food => food.trim()).filter(Boolean),
+        health_conditions: formData.healthConditions,
+      });
+
+      toast({
+        title: "Saved! 💾",
+        description: "Your profile has been updated",
+      });
+    } catch (error) {
+      console.error("Save error:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save profile",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCheckboxes = (field: ListField, options: readonly { id: string; label: string }[]) => (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {options.map((option) => (
+        <div key={option.id} className="flex items-center space-x-2">
+          <Checkbox
+            id={`${field}-${option.id}`}
+            checked={formData[field].includes(option.id)}
+            onCheckedChange={() => toggle(field, option.id)}
+          />
+          <Label htmlFor={`${field}-${option.id}`} className="text-sm font-normal cursor-pointer">
+            {option.label}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+
+  if (!user || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const age = formData.dateOfBirth ? calculateAge(formData.dateOfBirth) : null;
+  const timeZoneOptions =
+    formData.timezone && !TIME_ZONE_OPTIONS.includes(formData.timezone)
+      ? [formData.timezone, ...TIME_ZONE_OPTIONS]
+      : TIME_ZONE_OPTIONS;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" onClick={() => navigate("/")} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-2xl gradient-energy flex items-center justify-center">
+              <UserCircle className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Profile</h1>
+              <p className="text-muted-foreground">Saved details prefill every new plan</p>
+            </div>
+          </div>
+        </div>
+
+        <Card className="p-8 shadow-card space-y-6">
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="fullName">Name</Label>
+              <Input
+                id="fullName"
+                placeholder="Enter your name"
+                value={formData.fullName}
+                onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dateOfBirth">Date of Birth{age !== null ? ` (${age} years)` : ""}</Label>
+              <Input
+                id="dateOfBirth"
+                type="date"
+                value={formData.dateOfBirth}
+                onChange={(e) => setFormData({ ...formData, dateOfBirth: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sex</Label>
+              <RadioGroup value={formData.sex} onValueChange={(value) => setFormData({ ...formData, sex: value })}>
+                <div className="flex gap-4">
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="Male" id="profile-male" />
+                    <Label htmlFor="profile-male">Male</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="Female" id="profile-female" />
+                    <Label htmlFor="profile-female">Female</Label>
+                  </div>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <HeightInput
+              id="height"
+              valueCm={formData.height ? parseFloat(formData.height) : null}
+              unitSystem={toUnitSystem(formData.unitPreference)}
+              onChange={(cm) => setFormData(prev => ({ ...prev, height: cm === null ? "" : String(cm) }))}
+            />
+
+            <div className="space-y-2">
+              <Label>Units</Label>
+              <Select value={formData.unitPreference} onValueChange={(value) => setFormData({ ...formData, unitPreference: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNIT_SYSTEM_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Estimated 1RM Formula</Label>
+              <Select
+                value={formData.oneRepMaxFormula}
+                onValueChange={(value) => setFormData({ ...formData, oneRepMaxFormula: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ONE_REP_MAX_FORMULA_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Used for estimated 1RM records from your next workout on</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Time Zone</Label>
+              <Select
+                value={formData.timezone || AUTO_TIME_ZONE}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, timezone: value === AUTO_TIME_ZONE ? "" : value })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_TIME_ZONE}>Automatic ({getBrowserTimeZone()})</SelectItem>
+                  {timeZoneOptions.map((timeZone) => (
+                    <SelectItem key={timeZone} value={timeZone}>
+                      {timeZone.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Decides which day your workouts and streaks count towards</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default Equipment</Label>
+            {renderCheckboxes("equipment", EQUIPMENT_OPTIONS)}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Diet Preferences</Label>
+            {renderCheckboxes("dietPreferences", DIET_OPTIONS)}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Allergies & Intolerances</Label>
+            {renderCheckboxes("allergies", ALLERGEN_OPTIONS)}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dislikedFoods">Foods to Avoid (comma separated)</Label>
+            <Input
+              id="dislikedFoods"
+              placeholder="e.g. mushroom, broccoli, paneer"
+              value={formData.dislikedFoods}
+              onChange={(e) => setFormData({ ...formData, dislikedFoods: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Health Conditions & Injuries</Label>
+            {renderCheckboxes("healthConditions", HEALTH_CONDITION_OPTIONS)}
+          </div>
+
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full h-12 text-lg font-semibold gradient-calm hover:opacity-90 transition-opacity"
+          >
+            {saving ? "Saving..." : (
+              <>
+                <Save className="w-5 h-5 mr-2" />
+                Save Profile
+              </>
+            )}
+          </Button>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
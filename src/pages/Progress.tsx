@@ -4,13 +4,35 @@ import { supabase } from "@/integrations/supabase/client";
 import type { User } from "@supabase/supabase-js";
 import { WorkoutLogger } from "@/components/WorkoutLogger";
 import { ProgressTracker } from "@/components/ProgressTracker";
+import { PersonalRecordsTimeline } from "@/components/PersonalRecordsTimeline";
+import { BodyMeasurements } from "@/components/BodyMeasurements";
+import { ProgressCharts } from "@/components/ProgressCharts";
+import { GoalCards } from "@/components/GoalCards";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, Home, History, LogIn, LogOut } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { TrendingUp, Home, History, LogIn, LogOut, UserCircle, CalendarCheck, Award } from "lucide-react";
+import { useProfile } from "@/hooks/use-profile";
+import { useActivePlan } from "@/hooks/use-active-plan";
+import { useLatestWeight } from "@/hooks/use-latest-weight";
+import { useAchievements } from "@/hooks/use-achievements";
+import { useStreak } from "@/hooks/use-streak";
+import { getPlanDayForDate } from "@/lib/activePlan";
+import { toUnitSystem } from "@/lib/units";
+import { toOneRepMaxFormula } from "@/lib/personalRecords";
+import { parseDateKey, resolveTimeZone, todayKey } from "@/lib/dates";
 
 const Progress = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const { profile } = useProfile(user);
+  const { activePlan } = useActivePlan(profile?.active_plan_id);
+  const unitSystem = toUnitSystem(profile?.unit_preference);
+  const timeZone = resolveTimeZone(profile?.timezone);
+  const today = activePlan ? getPlanDayForDate(activePlan.weeklyPlan, parseDateKey(todayKey(timeZone))) : undefined;
+  const weightKg = useLatestWeight(user, refreshTrigger);
+  const streak = useStreak(user, activePlan?.weeklyPlan, profile?.active_plan_since, timeZone, refreshTrigger);
+  useAchievements(user, streak.current, timeZone, refreshTrigger);
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -55,6 +77,16 @@ const Progress = () => {
             <Button variant="ghost" onClick={() => navigate("/history")}>
               <History className="w-4 h-4 mr-2" /> History
             </Button>
+            {user && (
+              <Button variant="ghost" onClick={() => navigate("/achievements")}>
+                <Award className="w-4 h-4 mr-2" /> Badges
+              </Button>
+            )}
+            {user && (
+              <Button variant="ghost" onClick={() => navigate("/profile")}>
+                <UserCircle className="w-4 h-4 mr-2" /> Profile
+              </Button>
+            )}
             {user ? (
               <Button variant="outline" onClick={handleSignOut}>
                 <LogOut className="w-4 h-4 mr-2" /> Logout
@@ -80,16 +112,70 @@ const Progress = () => {
         </div>
 
         <div className="grid lg:grid-cols-3 gap-8">
-          <div className="lg:col-span-1">
+          <div className="lg:col-span-1 space-y-4">
+            {user && (
+              <Card className="p-4 shadow-card">
+                <div className="flex items-start gap-3">
+                  <CalendarCheck className="w-5 h-5 text-primary mt-0.5" />
+                  {activePlan ? (
+                    <div>
+                      <p className="font-semibold">{activePlan.name || "Unnamed Plan"}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {today ? `Today: ${today.day} · ${today.focus}` : "Today isn't in this plan's schedule"}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      No active plan. Set one from your History to log against today's workout.
+                    </p>
+                  )}
+                </div>
+              </Card>
+            )}
             <WorkoutLogger 
               user={user} 
+              exercises={today && today.exercises.length > 0 ? today.exercises : undefined}
+              planId={activePlan?.id}
+              planDay={today?.day}
+              unitSystem={unitSystem}
+              weightKg={weightKg}
+              timeZone={timeZone}
+              oneRepMaxFormula={toOneRepMaxFormula(profile?.one_rep_max_formula)}
               onLogComplete={handleLogComplete}
             />
           </div>
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
+            <GoalCards
+              user={user}
+              unitSystem={unitSystem}
+              timeZone={timeZone}
+              refreshTrigger={refreshTrigger}
+            />
             <ProgressTracker 
               user={user} 
               refreshTrigger={refreshTrigger}
+              unitSystem={unitSystem}
+              timeZone={timeZone}
+              streak={streak}
+              onLogDeleted={handleLogComplete}
+            />
+            <ProgressCharts
+              user={user}
+              unitSystem={unitSystem}
+              timeZone={timeZone}
+              refreshTrigger={refreshTrigger}
+            />
+            <BodyMeasurements
+              user={user}
+              unitSystem={unitSystem}
+              heightCm={profile?.height_cm}
+              timeZone={timeZone}
+              onSaved={handleLogComplete}
+            />
+            <PersonalRecordsTimeline
+              user={user}
+              unitSystem={unitSystem}
+              refreshTrigger={refreshTrigger}
             />
           </div>
         </div>
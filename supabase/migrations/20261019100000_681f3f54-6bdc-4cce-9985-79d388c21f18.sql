@@ -0,0 +1,4 @@
+-- Store body fat and the computed calorie/macro targets with each plan
+ALTER TABLE public.fitness_plans
+ADD COLUMN body_fat_percent NUMERIC,
+ADD COLUMN nutrition_targets JSONB;
@@ -0,0 +1,9 @@
+-- Food allergies/intolerances and disliked foods, remembered on the profile
+-- and recorded with each plan
+ALTER TABLE public.profiles
+ADD COLUMN allergies TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN disliked_foods TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.fitness_plans
+ADD COLUMN allergies TEXT[],
+ADD COLUMN disliked_foods TEXT[];
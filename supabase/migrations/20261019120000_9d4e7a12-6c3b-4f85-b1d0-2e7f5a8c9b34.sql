@@ -0,0 +1,3 @@
+-- Health conditions used to filter contraindicated exercises
+ALTER TABLE public.fitness_plans
+ADD COLUMN health_conditions TEXT[];
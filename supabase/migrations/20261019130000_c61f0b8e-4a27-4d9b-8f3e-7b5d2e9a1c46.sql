@@ -0,0 +1,9 @@
+-- Personal details remembered between plans so the planner can be prefilled
+ALTER TABLE public.profiles
+ADD COLUMN date_of_birth DATE,
+ADD COLUMN sex TEXT CHECK (sex IN ('Male', 'Female')),
+ADD COLUMN height_cm NUMERIC CHECK (height_cm > 0),
+ADD COLUMN unit_preference TEXT NOT NULL DEFAULT 'metric' CHECK (unit_preference IN ('metric', 'imperial')),
+ADD COLUMN equipment TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN diet_preferences TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN health_conditions TEXT[] NOT NULL DEFAULT '{}';
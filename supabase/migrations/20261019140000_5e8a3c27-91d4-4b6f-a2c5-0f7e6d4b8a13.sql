@@ -0,0 +1,8 @@
+-- Edits made to a saved plan (moved days, swapped exercises, changed sets/reps)
+ALTER TABLE public.fitness_plans
+ADD COLUMN change_history JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE TRIGGER set_fitness_plans_updated_at
+  BEFORE UPDATE ON public.fitness_plans
+  FOR EACH ROW EXECUTE PROCEDURE public.handle_updated_at();
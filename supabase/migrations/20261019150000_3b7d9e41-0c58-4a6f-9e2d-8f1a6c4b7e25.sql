@@ -0,0 +1,9 @@
+-- Plan versions: every plan belongs to a lineage, and plans regenerated from an
+-- earlier one share its lineage with the next version number.
+ALTER TABLE public.fitness_plans
+ADD COLUMN lineage_id UUID NOT NULL DEFAULT gen_random_uuid(),
+ADD COLUMN version INTEGER NOT NULL DEFAULT 1 CHECK (version > 0),
+ADD COLUMN parent_plan_id UUID REFERENCES public.fitness_plans(id) ON DELETE SET NULL;
+
+ALTER TABLE public.fitness_plans
+ADD CONSTRAINT fitness_plans_lineage_version_key UNIQUE (lineage_id, version);
@@ -0,0 +1,7 @@
+-- The plan a user is currently following; the progress page logs against it
+ALTER TABLE public.profiles
+ADD COLUMN active_plan_id UUID REFERENCES public.fitness_plans(id) ON DELETE SET NULL;
+
+-- Day of the plan's weekly schedule a workout was logged for (e.g. 'Monday')
+ALTER TABLE public.workout_logs
+ADD COLUMN plan_day TEXT;
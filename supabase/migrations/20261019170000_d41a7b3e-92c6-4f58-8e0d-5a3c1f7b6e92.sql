@@ -0,0 +1,42 @@
+-- Individual sets of a logged workout (e.g. 3 x 8 at 60kg)
+CREATE TABLE public.workout_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  workout_log_id UUID NOT NULL REFERENCES public.workout_logs(id) ON DELETE CASCADE,
+  exercise_id TEXT NOT NULL,
+  set_number INTEGER NOT NULL CHECK (set_number > 0),
+  reps INTEGER CHECK (reps >= 0),
+  load_kg NUMERIC CHECK (load_kg >= 0),
+  rpe NUMERIC CHECK (rpe BETWEEN 1 AND 10),
+  rest_seconds INTEGER CHECK (rest_seconds >= 0),
+  completed BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (workout_log_id, exercise_id, set_number)
+);
+
+-- Enable RLS
+ALTER TABLE public.workout_sets ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for workout_sets
+CREATE POLICY "Users can view own workout sets"
+ON public.workout_sets
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own workout sets"
+ON public.workout_sets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own workout sets"
+ON public.workout_sets
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own workout sets"
+ON public.workout_sets
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Previous-session lookups go by exercise, newest first
+CREATE INDEX idx_workout_sets_user_exercise ON public.workout_sets(user_id, exercise_id, created_at DESC);
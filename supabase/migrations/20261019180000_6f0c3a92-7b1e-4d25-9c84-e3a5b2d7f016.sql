@@ -0,0 +1,48 @@
+-- Timed and distance sets (planks, rowing sprints)
+ALTER TABLE public.workout_sets
+ADD COLUMN duration_seconds INTEGER CHECK (duration_seconds >= 0),
+ADD COLUMN distance_meters NUMERIC CHECK (distance_meters > 0);
+
+-- Personal bests, one row each time a best is set
+CREATE TABLE public.personal_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  exercise_id TEXT NOT NULL,
+  record_type TEXT NOT NULL CHECK (record_type IN ('max_weight', 'reps_at_weight', 'estimated_1rm', 'longest_duration', 'fastest_distance')),
+  value NUMERIC NOT NULL,
+  -- Reps-at-weight records are per load, fastest-distance records per distance
+  load_kg NUMERIC,
+  distance_meters NUMERIC,
+  previous_value NUMERIC,
+  workout_log_id UUID NOT NULL REFERENCES public.workout_logs(id) ON DELETE CASCADE,
+  workout_set_id UUID REFERENCES public.workout_sets(id) ON DELETE SET NULL,
+  achieved_on DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.personal_records ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for personal_records
+CREATE POLICY "Users can view own personal records"
+ON public.personal_records
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own personal records"
+ON public.personal_records
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own personal records"
+ON public.personal_records
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own personal records"
+ON public.personal_records
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_personal_records_user_exercise ON public.personal_records(user_id, exercise_id);
+CREATE INDEX idx_personal_records_user_date ON public.personal_records(user_id, achieved_on DESC);
@@ -0,0 +1,3 @@
+-- How calories_burned was filled in: estimated from MET values or entered by hand
+ALTER TABLE public.workout_logs
+ADD COLUMN calories_method TEXT CHECK (calories_method IN ('met', 'manual'));
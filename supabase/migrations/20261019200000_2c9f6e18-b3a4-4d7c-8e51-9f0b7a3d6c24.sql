@@ -0,0 +1,42 @@
+-- Weigh-ins and body measurements over time. Lengths are in cm, weight in kg.
+CREATE TABLE public.body_measurements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  measured_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  weight_kg NUMERIC CHECK (weight_kg > 0),
+  body_fat_percent NUMERIC CHECK (body_fat_percent > 0 AND body_fat_percent < 100),
+  waist_cm NUMERIC CHECK (waist_cm > 0),
+  hip_cm NUMERIC CHECK (hip_cm > 0),
+  chest_cm NUMERIC CHECK (chest_cm > 0),
+  arm_cm NUMERIC CHECK (arm_cm > 0),
+  thigh_cm NUMERIC CHECK (thigh_cm > 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.body_measurements ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for body_measurements
+CREATE POLICY "Users can view own body measurements"
+ON public.body_measurements
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own body measurements"
+ON public.body_measurements
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own body measurements"
+ON public.body_measurements
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own body measurements"
+ON public.body_measurements
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create index for faster queries
+CREATE INDEX idx_body_measurements_user_date ON public.body_measurements(user_id, measured_on DESC);
@@ -0,0 +1,4 @@
+-- IANA time zone used to decide which calendar day a workout falls on.
+-- NULL means the browser's own zone.
+ALTER TABLE public.profiles
+ADD COLUMN timezone TEXT;
@@ -0,0 +1,133 @@
+-- Progress page aggregates, computed in the database instead of from every log.
+-- SECURITY INVOKER keeps row level security in force, and each function only
+-- reads the calling user's rows. Dates are calendar days in the user's zone,
+-- so "today" is passed in by the client.
+
+-- Lifetime totals, this week's count (weeks start on Monday) and the current streak
+CREATE OR REPLACE FUNCTION public.get_workout_totals(p_today DATE)
+RETURNS TABLE (
+  total_workouts BIGINT,
+  total_duration BIGINT,
+  total_calories BIGINT,
+  this_week_workouts BIGINT,
+  current_streak INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH logs AS (
+    SELECT workout_date, duration_minutes, calories_burned
+    FROM public.workout_logs
+    WHERE user_id = auth.uid()
+  ),
+  days AS (
+    SELECT DISTINCT workout_date FROM logs WHERE workout_date <= p_today
+  ),
+  -- Consecutive days share the same island
+  islands AS (
+    SELECT workout_date, workout_date - (ROW_NUMBER() OVER (ORDER BY workout_date))::INTEGER AS island
+    FROM days
+  )
+  SELECT
+    (SELECT COUNT(*) FROM logs),
+    (SELECT COALESCE(SUM(duration_minutes), 0) FROM logs),
+    (SELECT COALESCE(SUM(calories_burned), 0) FROM logs),
+    (SELECT COUNT(*) FROM logs WHERE workout_date BETWEEN date_trunc('week', p_today::TIMESTAMP)::DATE AND p_today),
+    (
+      -- The latest island counts only if it reaches today or yesterday
+      SELECT COUNT(*)::INTEGER
+      FROM islands
+      WHERE island = (SELECT island FROM islands ORDER BY workout_date DESC LIMIT 1)
+        AND (SELECT MAX(workout_date) FROM days) >= p_today - 1
+    );
+$$;
+
+-- Workouts, minutes and calories per Monday-start week
+CREATE OR REPLACE FUNCTION public.get_weekly_workout_stats(p_since DATE DEFAULT NULL)
+RETURNS TABLE (
+  week_start DATE,
+  workouts BIGINT,
+  duration BIGINT,
+  calories BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    date_trunc('week', workout_date::TIMESTAMP)::DATE,
+    COUNT(*),
+    COALESCE(SUM(duration_minutes), 0),
+    COALESCE(SUM(calories_burned), 0)
+  FROM public.workout_logs
+  WHERE user_id = auth.uid()
+    AND (p_since IS NULL OR workout_date >= p_since)
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+-- Workouts, minutes and lifted volume (reps x kg of completed sets) per day
+CREATE OR REPLACE FUNCTION public.get_daily_workout_stats(p_since DATE)
+RETURNS TABLE (
+  day DATE,
+  workouts BIGINT,
+  duration BIGINT,
+  volume_kg NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    l.workout_date,
+    COUNT(*),
+    COALESCE(SUM(l.duration_minutes), 0),
+    COALESCE(SUM(v.volume_kg), 0)
+  FROM public.workout_logs l
+  LEFT JOIN (
+    SELECT workout_log_id, SUM(reps * load_kg) AS volume_kg
+    FROM public.workout_sets
+    WHERE user_id = auth.uid() AND completed
+    GROUP BY workout_log_id
+  ) v ON v.workout_log_id = l.id
+  WHERE l.user_id = auth.uid()
+    AND l.workout_date >= p_since
+  GROUP BY l.workout_date
+  ORDER BY l.workout_date;
+$$;
+
+-- Lifetime summary of every exercise with completed sets, most trained first
+CREATE OR REPLACE FUNCTION public.get_exercise_summaries()
+RETURNS TABLE (
+  exercise_id TEXT,
+  sessions BIGINT,
+  total_sets BIGINT,
+  total_reps BIGINT,
+  total_volume_kg NUMERIC,
+  best_load_kg NUMERIC,
+  last_performed DATE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    s.exercise_id,
+    COUNT(DISTINCT s.workout_log_id),
+    COUNT(*),
+    COALESCE(SUM(s.reps), 0),
+    COALESCE(SUM(s.reps * s.load_kg), 0),
+    MAX(s.load_kg),
+    MAX(l.workout_date)
+  FROM public.workout_sets s
+  JOIN public.workout_logs l ON l.id = s.workout_log_id
+  WHERE s.user_id = auth.uid()
+    AND s.completed
+  GROUP BY s.exercise_id
+  ORDER BY COUNT(DISTINCT s.workout_log_id) DESC, MAX(l.workout_date) DESC;
+$$;
@@ -0,0 +1,44 @@
+-- User-defined targets. Weight and lift targets are in kg, minutes per calendar
+-- month and workouts per Monday-start week.
+CREATE TABLE public.goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  goal_type TEXT NOT NULL CHECK (goal_type IN ('target_weight', 'weekly_workouts', 'lift_pr', 'monthly_minutes')),
+  target_value NUMERIC NOT NULL CHECK (target_value > 0),
+  -- Lift PR goals only
+  exercise_id TEXT,
+  -- Where the goal started from, e.g. body weight when a weight goal was set
+  start_value NUMERIC,
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  target_date DATE,
+  achieved_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (goal_type <> 'lift_pr' OR exercise_id IS NOT NULL)
+);
+
+-- Enable RLS
+ALTER TABLE public.goals ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for goals
+CREATE POLICY "Users can view own goals"
+ON public.goals
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goals"
+ON public.goals
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goals"
+ON public.goals
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goals"
+ON public.goals
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Create index for faster queries
+CREATE INDEX idx_goals_user ON public.goals(user_id, created_at DESC);
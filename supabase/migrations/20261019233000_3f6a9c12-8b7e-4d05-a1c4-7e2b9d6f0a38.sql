@@ -0,0 +1,23 @@
+-- Badges a user has unlocked. Rules live in the app; a badge is stored once,
+-- when it's first earned, and never changes after that.
+CREATE TABLE public.achievements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  achievement_id TEXT NOT NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, achievement_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.achievements ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for achievements
+CREATE POLICY "Users can view own achievements"
+ON public.achievements
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own achievements"
+ON public.achievements
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
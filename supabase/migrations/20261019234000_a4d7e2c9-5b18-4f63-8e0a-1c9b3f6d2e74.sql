@@ -0,0 +1,29 @@
+-- The streak now depends on the user's active plan and streak freezes, so it
+-- gets its own function. The return type changes, which CREATE OR REPLACE
+-- can't do.
+DROP FUNCTION IF EXISTS public.get_workout_totals(DATE);
+
+-- Lifetime totals and this week's count (weeks start on Monday)
+CREATE FUNCTION public.get_workout_totals(p_today DATE)
+RETURNS TABLE (
+  total_workouts BIGINT,
+  total_duration BIGINT,
+  total_calories BIGINT,
+  this_week_workouts BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH logs AS (
+    SELECT workout_date, duration_minutes, calories_burned
+    FROM public.workout_logs
+    WHERE user_id = auth.uid()
+  )
+  SELECT
+    (SELECT COUNT(*) FROM logs),
+    (SELECT COALESCE(SUM(duration_minutes), 0) FROM logs),
+    (SELECT COALESCE(SUM(calories_burned), 0) FROM logs),
+    (SELECT COUNT(*) FROM logs WHERE workout_date BETWEEN date_trunc('week', p_today::TIMESTAMP)::DATE AND p_today);
+$$;
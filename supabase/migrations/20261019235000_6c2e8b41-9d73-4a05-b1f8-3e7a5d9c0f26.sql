@@ -0,0 +1,3 @@
+-- Which formula estimated 1RM records are computed with
+ALTER TABLE public.profiles
+ADD COLUMN one_rep_max_formula TEXT NOT NULL DEFAULT 'epley' CHECK (one_rep_max_formula IN ('epley', 'brzycki'));
@@ -0,0 +1,69 @@
+-- Progress chart aggregates, so the charts don't pull every log and set.
+-- Same conventions as the other progress functions: SECURITY INVOKER, the
+-- caller's rows only, and an optional first day (NULL for all time).
+
+-- Workouts per logged mood
+CREATE OR REPLACE FUNCTION public.get_mood_counts(p_since DATE DEFAULT NULL)
+RETURNS TABLE (
+  mood TEXT,
+  workouts BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT mood, COUNT(*)
+  FROM public.workout_logs
+  WHERE user_id = auth.uid()
+    AND mood IS NOT NULL
+    AND (p_since IS NULL OR workout_date >= p_since)
+  GROUP BY mood;
+$$;
+
+-- Exercises with completed weighted rep sets, most trained first
+CREATE OR REPLACE FUNCTION public.get_volume_exercises(p_since DATE DEFAULT NULL)
+RETURNS TABLE (
+  exercise_id TEXT,
+  weighted_sets BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT s.exercise_id, COUNT(*)
+  FROM public.workout_sets s
+  JOIN public.workout_logs l ON l.id = s.workout_log_id
+  WHERE s.user_id = auth.uid()
+    AND s.completed
+    AND s.reps > 0
+    AND s.load_kg > 0
+    AND (p_since IS NULL OR l.workout_date >= p_since)
+  GROUP BY s.exercise_id
+  ORDER BY COUNT(*) DESC, s.exercise_id;
+$$;
+
+-- Reps x kg of one exercise's completed sets per workout day
+CREATE OR REPLACE FUNCTION public.get_daily_exercise_volume(p_exercise_id TEXT, p_since DATE DEFAULT NULL)
+RETURNS TABLE (
+  day DATE,
+  volume_kg NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT l.workout_date, SUM(s.reps * s.load_kg)
+  FROM public.workout_sets s
+  JOIN public.workout_logs l ON l.id = s.workout_log_id
+  WHERE s.user_id = auth.uid()
+    AND s.exercise_id = p_exercise_id
+    AND s.completed
+    AND s.reps > 0
+    AND s.load_kg > 0
+    AND (p_since IS NULL OR l.workout_date >= p_since)
+  GROUP BY l.workout_date
+  ORDER BY l.workout_date;
+$$;
@@ -0,0 +1,96 @@
+-- When the user switched to their current plan. Its rest days only count
+-- towards the streak from then on, so a new plan never rewrites past days.
+ALTER TABLE public.profiles
+ADD COLUMN active_plan_since TIMESTAMP WITH TIME ZONE;
+
+-- Plans made active before this column existed count from when they were saved
+UPDATE public.profiles p
+SET active_plan_since = f.created_at
+FROM public.fitness_plans f
+WHERE f.id = p.active_plan_id;
+
+CREATE OR REPLACE FUNCTION public.set_active_plan_since()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.active_plan_id IS NULL THEN
+    NEW.active_plan_since = NULL;
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.active_plan_since = now();
+  ELSIF NEW.active_plan_id IS DISTINCT FROM OLD.active_plan_id THEN
+    NEW.active_plan_since = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_profiles_active_plan_since
+  BEFORE INSERT OR UPDATE OF active_plan_id ON public.profiles
+  FOR EACH ROW EXECUTE PROCEDURE public.set_active_plan_since();
+
+-- The current streak, walked day by day from the first workout to today.
+-- Workout days keep it going, and so do the plan's rest weekdays (ISO, 1 =
+-- Monday) from p_rest_since on. Every 7 kept days earn a freeze, up to 2,
+-- which is spent on a missed day; with none left the streak starts over.
+-- An unlogged today is never a miss.
+CREATE OR REPLACE FUNCTION public.get_current_streak(
+  p_today DATE,
+  p_rest_weekdays INTEGER[] DEFAULT '{}',
+  p_rest_since DATE DEFAULT NULL
+)
+RETURNS TABLE (
+  current_streak INTEGER,
+  freezes INTEGER,
+  frozen_days DATE[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_day DATE;
+  v_worked BOOLEAN;
+BEGIN
+  current_streak := 0;
+  freezes := 0;
+  frozen_days := '{}';
+
+  FOR v_day, v_worked IN
+    SELECT d::DATE, w.workout_date IS NOT NULL
+    FROM generate_series(
+      (SELECT MIN(workout_date) FROM public.workout_logs WHERE user_id = auth.uid())::TIMESTAMP,
+      p_today::TIMESTAMP,
+      INTERVAL '1 day'
+    ) AS d
+    LEFT JOIN (
+      SELECT DISTINCT workout_date FROM public.workout_logs WHERE user_id = auth.uid()
+    ) w ON w.workout_date = d::DATE
+    ORDER BY d
+  LOOP
+    IF v_worked OR (
+      current_streak > 0
+      AND v_day >= p_rest_since
+      AND EXTRACT(ISODOW FROM v_day)::INTEGER = ANY (p_rest_weekdays)
+    ) THEN
+      current_streak := current_streak + 1;
+      IF current_streak % 7 = 0 THEN
+        freezes := LEAST(freezes + 1, 2);
+      END IF;
+    ELSIF v_day = p_today OR current_streak = 0 THEN
+      CONTINUE;
+    ELSIF freezes > 0 THEN
+      freezes := freezes - 1;
+      frozen_days := frozen_days || v_day;
+    ELSE
+      current_streak := 0;
+      freezes := 0;
+      frozen_days := '{}';
+    END IF;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Which formula an estimated 1RM record was computed with, so a switch in the
+-- profile only compares new estimates against ones made the same way
+ALTER TABLE public.personal_records
+ADD COLUMN formula TEXT CHECK (formula IN ('epley', 'brzycki'));
+
+-- Every estimate before the profile setting existed used Epley
+UPDATE public.personal_records
+SET formula = 'epley'
+WHERE record_type = 'estimated_1rm';